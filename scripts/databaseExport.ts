@@ -0,0 +1,70 @@
+/**
+ * Loads the MongoDB exports in database/ as app types
+ * Shared by the data:sync and data:seed scripts
+ */
+
+import { readFile } from "fs/promises";
+import path from "path";
+import { Category, Property } from "@/types";
+import {
+  ConversionResult,
+  categoriesFromExtendedJson,
+  describeRejection,
+  propertiesFromExtendedJson,
+} from "@/lib/utils/mongoExtendedJson";
+
+export const DATABASE_DIR = path.join(process.cwd(), "database");
+
+async function readExport(fileName: string): Promise<unknown> {
+  const content = await readFile(path.join(DATABASE_DIR, fileName), "utf8");
+  return JSON.parse(content);
+}
+
+export interface DatabaseExport {
+  properties: ConversionResult<Property>;
+  categories: ConversionResult<Category>;
+}
+
+/**
+ * Properties are checked against the exported categories, unless a list of
+ * category names is given (e.g. the categories a backend already has)
+ */
+export async function loadDatabaseExport(
+  categoryNames?: string[]
+): Promise<DatabaseExport> {
+  const categories = categoriesFromExtendedJson(
+    await readExport("RealEstateDb.Categories.json")
+  );
+  const properties = propertiesFromExtendedJson(
+    await readExport("RealEstateDb.Properties.json"),
+    categoryNames ?? categories.records.map((category) => category.name)
+  );
+  return { properties, categories };
+}
+
+/**
+ * Print rejected documents; returns true when there were any
+ */
+export function reportRejections(
+  label: string,
+  result: ConversionResult<unknown>
+): boolean {
+  if (result.rejected.length === 0) return false;
+
+  console.warn(`Skipped ${result.rejected.length} ${label}:`);
+  result.rejected.forEach((rejection) => {
+    console.warn(`  ${describeRejection(rejection)}`);
+  });
+  return true;
+}
+
+/**
+ * Run a script's main function, reporting failures with exit code 1
+ */
+export function runScript(main: () => Promise<void>): void {
+  main().catch((error) => {
+    // ApiError is a plain object, so print its message rather than the object
+    console.error((error as { message?: string }).message ?? error);
+    process.exitCode = 1;
+  });
+}
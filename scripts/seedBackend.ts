@@ -0,0 +1,72 @@
+/**
+ * Seeds a backend with the properties in database/ through propertyApi
+ * Usage: NEXT_PUBLIC_API_URL=http://localhost:5000/api npm run data:seed
+ * Properties already on the backend (same name and address) are skipped, so
+ * the script can be re-run safely. Categories must already exist there.
+ */
+
+import { Property, PropertyInput } from "@/types";
+import { API_CONFIG } from "@/lib/api/config";
+import { propertyApi } from "@/lib/api/propertyService";
+import { describeBulkFailures, runBulk } from "@/lib/utils/bulkOperations";
+import { loadDatabaseExport, reportRejections, runScript } from "./databaseExport";
+
+const PAGE_SIZE = 100;
+
+const propertyKey = (property: Pick<Property, "name" | "addressProperty">) =>
+  `${property.name.trim().toLowerCase()}|${property.addressProperty.trim().toLowerCase()}`;
+
+async function fetchAllProperties(): Promise<Property[]> {
+  const properties: Property[] = [];
+  for (let pageNumber = 1; ; pageNumber++) {
+    const page = await propertyApi.getProperties({}, { pageNumber, pageSize: PAGE_SIZE });
+    properties.push(...page.data);
+    if (pageNumber >= page.totalPages) return properties;
+  }
+}
+
+// id and createdAt are assigned by the backend
+function toInput(property: Property): PropertyInput {
+  return {
+    name: property.name,
+    description: property.description,
+    addressProperty: property.addressProperty,
+    type: property.type,
+    priceProperty: property.priceProperty,
+    imageUrl: property.imageUrl,
+    active: property.active,
+    idOwner: property.idOwner,
+  };
+}
+
+async function main() {
+  if (API_CONFIG.dataSource !== "api") {
+    throw new Error('NEXT_PUBLIC_DATA_SOURCE must be "api" to seed a backend');
+  }
+  console.log(`Seeding ${API_CONFIG.baseUrl}`);
+
+  const backendCategories = await propertyApi.getCategories();
+  const { properties } = await loadDatabaseExport(backendCategories.map((c) => c.name));
+  const hadRejections = reportRejections("properties", properties);
+
+  const existing = new Set((await fetchAllProperties()).map(propertyKey));
+  const pending = properties.records.filter((p) => !existing.has(propertyKey(p)));
+  console.log(`${properties.records.length - pending.length} already present, creating ${pending.length}`);
+
+  const { succeeded, failed } = await runBulk(
+    pending,
+    (property) => propertyApi.createProperty(toInput(property)),
+    {
+      concurrency: API_CONFIG.bulkConcurrency,
+      onProgress: (completed, total) => console.log(`  ${completed}/${total}`),
+    }
+  );
+
+  console.log(`Created ${succeeded.length} properties`);
+  if (failed.length > 0) {
+    console.error(`Failed to create ${failed.length}: ${describeBulkFailures(failed, (p) => p.name, failed.length)}`);
+  }
+  if (hadRejections || failed.length > 0) process.exitCode = 1;
+}
+
+runScript(main);
@@ -0,0 +1,61 @@
+/**
+ * Regenerates src/data/*.json from the MongoDB exports in database/
+ * Usage: npm run data:sync [-- --force]
+ * Documents that cannot be converted are listed and the exit code is 1.
+ * Refuses to write when records in src/data would be lost, unless --force
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import { loadDatabaseExport, reportRejections, runScript } from "./databaseExport";
+
+const DATA_DIR = path.join(process.cwd(), "src", "data");
+
+/**
+ * Ids currently in src/data/<fileName> that `records` no longer contains
+ */
+async function findDropped(
+  fileName: string,
+  records: { id: string }[]
+): Promise<string[]> {
+  const current: { id: string }[] = JSON.parse(
+    await readFile(path.join(DATA_DIR, fileName), "utf8")
+  );
+  const kept = new Set(records.map((record) => record.id));
+  return current.map((record) => record.id).filter((id) => !kept.has(id));
+}
+
+async function writeData(fileName: string, records: unknown[]): Promise<void> {
+  await writeFile(
+    path.join(DATA_DIR, fileName),
+    JSON.stringify(records, null, 2) + "\n"
+  );
+  console.log(`Wrote ${records.length} records to src/data/${fileName}`);
+}
+
+async function main() {
+  const { properties, categories } = await loadDatabaseExport();
+
+  const dropped = [
+    ...(await findDropped("categories.json", categories.records)),
+    ...(await findDropped("properties.json", properties.records)),
+  ];
+  if (dropped.length > 0) {
+    console.warn(`${dropped.length} records in src/data are missing from database/:`);
+    dropped.forEach((id) => console.warn(`  ${id}`));
+    if (!process.argv.includes("--force")) {
+      throw new Error("Nothing was written; run with --force to drop them");
+    }
+  }
+
+  await writeData("categories.json", categories.records);
+  await writeData("properties.json", properties.records);
+
+  const hadRejections = [
+    reportRejections("categories", categories),
+    reportRejections("properties", properties),
+  ].some(Boolean);
+  if (hadRejections) process.exitCode = 1;
+}
+
+runScript(main);
@@ -0,0 +1,208 @@
+/**
+ * @jest-environment node
+ */
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import * as propertiesRoute from "../properties/route";
+import * as propertyRoute from "../properties/[id]/route";
+import * as categoriesRoute from "../categories/route";
+import * as uploadRoute from "../upload/image/route";
+import * as uploadedImageRoute from "../upload/image/[fileName]/route";
+import seedProperties from "@/data/properties.json";
+import seedCategories from "@/data/categories.json";
+
+const BASE_URL = "http://localhost:3000/api";
+
+const jsonRequest = (url: string, method: string, body: unknown) =>
+  new NextRequest(`${BASE_URL}${url}`, {
+    method,
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+  });
+
+const context = <T>(params: T) => ({ params: Promise.resolve(params) });
+
+describe("local API route handlers", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "million-data-"));
+    process.env.LOCAL_DATA_DIR = dataDir;
+  });
+
+  afterEach(async () => {
+    delete process.env.LOCAL_DATA_DIR;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  describe("/api/properties", () => {
+    it("lists the seed data as a plain array", async () => {
+      const response = await propertiesRoute.GET(
+        new NextRequest(`${BASE_URL}/properties`)
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toHaveLength(seedProperties.length);
+    });
+
+    it("applies filters and returns a page when requested", async () => {
+      const response = await propertiesRoute.GET(
+        new NextRequest(
+          `${BASE_URL}/properties?type=Villa&active=true&pageNumber=1&pageSize=1`
+        )
+      );
+      const page = await response.json();
+      const villas = seedProperties.filter(
+        (p) => p.type === "Villa" && p.active
+      );
+
+      expect(page).toMatchObject({
+        pageNumber: 1,
+        pageSize: 1,
+        totalRecords: villas.length,
+      });
+      expect(page.data).toHaveLength(1);
+      expect(page.data[0].type).toBe("Villa");
+    });
+
+    it("creates a property and persists it to disk", async () => {
+      const response = await propertiesRoute.POST(
+        jsonRequest("/properties", "POST", {
+          name: "Local Property",
+          description: "Created through the route handler",
+          addressProperty: "1 Local St",
+          type: "House",
+          priceProperty: 400000,
+          id: "ignored",
+        })
+      );
+      const created = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(created.id).not.toBe("ignored");
+      expect(created.active).toBe(true);
+
+      const saved = JSON.parse(
+        await fs.readFile(path.join(dataDir, "properties.json"), "utf8")
+      );
+      expect(saved[0]).toEqual(created);
+    });
+
+    it("rejects invalid properties with field errors", async () => {
+      const response = await propertiesRoute.POST(
+        jsonRequest("/properties", "POST", {
+          name: "",
+          description: "x",
+          addressProperty: "x",
+          type: "Castle",
+          priceProperty: -1,
+        })
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(Object.keys(body.errors)).toEqual(
+        expect.arrayContaining(["name", "priceProperty", "type"])
+      );
+    });
+  });
+
+  describe("/api/properties/[id]", () => {
+    const id = seedProperties[0].id;
+
+    it("gets, updates and deletes a property", async () => {
+      const getResponse = await propertyRoute.GET(
+        new NextRequest(`${BASE_URL}/properties/${id}`),
+        context({ id })
+      );
+      expect(await getResponse.json()).toEqual(seedProperties[0]);
+
+      const putResponse = await propertyRoute.PUT(
+        jsonRequest(`/properties/${id}`, "PUT", { priceProperty: 999000 }),
+        context({ id })
+      );
+      expect(putResponse.status).toBe(200);
+      expect((await putResponse.json()).priceProperty).toBe(999000);
+
+      const deleteResponse = await propertyRoute.DELETE(
+        new NextRequest(`${BASE_URL}/properties/${id}`, { method: "DELETE" }),
+        context({ id })
+      );
+      expect(deleteResponse.status).toBe(204);
+
+      const missing = await propertyRoute.GET(
+        new NextRequest(`${BASE_URL}/properties/${id}`),
+        context({ id })
+      );
+      expect(missing.status).toBe(404);
+    });
+
+    it("returns 404 for unknown IDs", async () => {
+      const response = await propertyRoute.PUT(
+        jsonRequest("/properties/missing", "PUT", { name: "x" }),
+        context({ id: "missing" })
+      );
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toMatchObject({
+        message: expect.any(String),
+      });
+    });
+  });
+
+  describe("/api/categories", () => {
+    it("lists categories", async () => {
+      const response = await categoriesRoute.GET();
+
+      expect(await response.json()).toEqual(seedCategories);
+    });
+  });
+
+  describe("/api/upload/image", () => {
+    const uploadRequest = (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      return new NextRequest(`${BASE_URL}/upload/image`, {
+        method: "POST",
+        body: formData,
+      });
+    };
+
+    it("stores the image and serves it back", async () => {
+      const response = await uploadRoute.POST(
+        uploadRequest(new File(["png-bytes"], "photo.png", { type: "image/png" }))
+      );
+      const { imageUrl, fileName } = await response.json();
+
+      expect(imageUrl).toBe(`http://localhost:3000/api/upload/image/${fileName}`);
+
+      const imageResponse = await uploadedImageRoute.GET(
+        new NextRequest(imageUrl),
+        context({ fileName })
+      );
+      expect(imageResponse.headers.get("Content-Type")).toBe("image/png");
+      expect(await imageResponse.text()).toBe("png-bytes");
+    });
+
+    it("rejects non-image files", async () => {
+      const response = await uploadRoute.POST(
+        uploadRequest(new File(["text"], "notes.txt", { type: "text/plain" }))
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it("refuses file names outside the uploads folder", async () => {
+      const response = await uploadRoute.DELETE(
+        new NextRequest(`${BASE_URL}/upload/image?fileName=../properties.json`, {
+          method: "DELETE",
+        })
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
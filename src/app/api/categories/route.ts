@@ -0,0 +1,16 @@
+/**
+ * GET /api/categories - list property categories
+ */
+
+import { NextResponse } from "next/server";
+import { readStore } from "@/lib/server/fileStore";
+import { errorResponse } from "@/lib/server/http";
+
+export async function GET() {
+  try {
+    const categories = await readStore((source) => source.getCategories());
+    return NextResponse.json(categories);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
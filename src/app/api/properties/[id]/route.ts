@@ -0,0 +1,57 @@
+/**
+ * GET    /api/properties/:id  - get a property
+ * PUT    /api/properties/:id  - update a property (partial updates supported)
+ * DELETE /api/properties/:id  - delete a property
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { readStore, mutateStore } from "@/lib/server/fileStore";
+import {
+  errorResponse,
+  readJsonBody,
+  toValidPropertyInput,
+} from "@/lib/server/http";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const property = await readStore((source) => source.getPropertyById(id));
+    return NextResponse.json(property);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await readJsonBody(request);
+
+    const updated = await mutateStore(async (source) => {
+      const categories = await source.getCategories();
+      const input = toValidPropertyInput(body, {
+        partial: true,
+        categories: categories.map((category) => category.name),
+      });
+      return source.updateProperty(id, input);
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await mutateStore((source) => source.deleteProperty(id));
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * GET  /api/properties  - list properties (same query parameters as the .NET API)
+ * POST /api/properties  - create a property
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PropertyInput } from "@/types";
+import { parsePropertySearchParams } from "@/lib/api/propertyQuery";
+import { readStore, mutateStore } from "@/lib/server/fileStore";
+import {
+  errorResponse,
+  readJsonBody,
+  toValidPropertyInput,
+} from "@/lib/server/http";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { filters, pagination } = parsePropertySearchParams(
+      request.nextUrl.searchParams
+    );
+    const page = await readStore((source) =>
+      source.getProperties(filters, pagination)
+    );
+
+    // Plain array unless a page was requested, like the .NET API
+    return NextResponse.json(pagination ? page : page.data);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+
+    const created = await mutateStore(async (source) => {
+      const categories = await source.getCategories();
+      const input = toValidPropertyInput(body, {
+        categories: categories.map((category) => category.name),
+      });
+      return source.createProperty(input as PropertyInput);
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * GET /api/upload/image/:fileName - serve an uploaded image
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError } from "@/lib/api/types";
+import { getUploadsDir } from "@/lib/server/fileStore";
+import { errorResponse } from "@/lib/server/http";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+interface RouteContext {
+  params: Promise<{ fileName: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { fileName } = await params;
+    const contentType = CONTENT_TYPES[path.extname(fileName).toLowerCase()];
+
+    if (!contentType || path.basename(fileName) !== fileName) {
+      throw { message: "File not found", statusCode: 404 } as ApiError;
+    }
+
+    const content = await fs
+      .readFile(path.join(getUploadsDir(), fileName))
+      .catch(() => {
+        throw { message: "File not found", statusCode: 404 } as ApiError;
+      });
+
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        "Content-Type": contentType,
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
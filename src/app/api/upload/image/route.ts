@@ -0,0 +1,76 @@
+/**
+ * POST   /api/upload/image             - upload a property image (multipart "file")
+ * DELETE /api/upload/image?fileName=x  - delete an uploaded image
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError } from "@/lib/api/types";
+import { getUploadsDir } from "@/lib/server/fileStore";
+import { errorResponse } from "@/lib/server/http";
+
+const ALLOWED_EXTENSIONS = [".jpg", ".jpeg", ".png", ".gif", ".webp"];
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get("file");
+
+    if (!file || typeof file === "string") {
+      throw { message: "No file uploaded", statusCode: 400 } as ApiError;
+    }
+
+    const extension = path.extname(file.name).toLowerCase();
+    if (!ALLOWED_EXTENSIONS.includes(extension)) {
+      throw {
+        message:
+          "Invalid file type. Only images are allowed (jpg, jpeg, png, gif, webp)",
+        statusCode: 400,
+      } as ApiError;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      throw {
+        message: "File size exceeds 5MB limit",
+        statusCode: 400,
+      } as ApiError;
+    }
+
+    const fileName = `${randomUUID()}${extension}`;
+    const dir = getUploadsDir();
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      path.join(dir, fileName),
+      Buffer.from(await file.arrayBuffer())
+    );
+
+    // Absolute URL so the image works wherever the listing is rendered
+    const imageUrl = new URL(`/api/upload/image/${fileName}`, request.url).href;
+    return NextResponse.json({ imageUrl, fileName });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const fileName = request.nextUrl.searchParams.get("fileName");
+
+    // Only bare file names, never paths outside the uploads folder
+    if (!fileName || path.basename(fileName) !== fileName) {
+      throw { message: "Invalid file name", statusCode: 400 } as ApiError;
+    }
+
+    try {
+      await fs.unlink(path.join(getUploadsDir(), fileName));
+    } catch {
+      throw { message: "File not found", statusCode: 404 } as ApiError;
+    }
+
+    return NextResponse.json({ message: "Image deleted successfully" });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { render, screen, act } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ImportPage from '../page';
+import { propertyApi } from '@/lib/api/propertyService';
+import { categoriesCache } from '@/lib/api/queryCache';
+
+jest.mock('@/lib/api/propertyService');
+
+describe('ImportPage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    categoriesCache.clear();
+  });
+
+  const renderPage = async () => {
+    await act(async () => {
+      render(<ImportPage />);
+    });
+  };
+
+  it('shows the importer once categories load', async () => {
+    (propertyApi.getCategories as jest.Mock).mockResolvedValue([
+      { id: '1', name: 'House', color: '#10b981' },
+    ]);
+
+    await renderPage();
+
+    expect(propertyApi.getCategories).toHaveBeenCalledWith({ signal: expect.any(AbortSignal) });
+    expect(screen.getByLabelText('Choose CSV or JSON file')).toBeInTheDocument();
+    expect(screen.queryByText('Something went wrong')).not.toBeInTheDocument();
+  });
+
+  it('shows an error with a retry when categories fail to load', async () => {
+    (propertyApi.getCategories as jest.Mock)
+      .mockRejectedValueOnce({ message: 'Network error', statusCode: 0 })
+      .mockResolvedValueOnce([]);
+
+    await renderPage();
+
+    expect(screen.getByText('Network error')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Choose CSV or JSON file')).not.toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: /try again/i }));
+
+    expect(propertyApi.getCategories).toHaveBeenCalledTimes(2);
+    expect(await screen.findByLabelText('Choose CSV or JSON file')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Category } from '@/types';
+import PropertyImport from '@/components/PropertyImport';
+import ErrorMessage from '@/components/ErrorMessage';
+import { ArrowLeft, Building2 } from 'lucide-react';
+import { propertyApi } from '@/lib/api/propertyService';
+import { ApiError } from '@/lib/api/types';
+import { CATEGORIES_KEY, categoriesCache, readThrough } from '@/lib/api/queryCache';
+import { isAbortError } from '@/lib/utils/errorHandler';
+
+export default function ImportPage() {
+  // null until loaded; importing waits for the list so types are checked
+  const [categories, setCategories] = useState<Category[] | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const categoryList = readThrough(categoriesCache, CATEGORIES_KEY, () =>
+      propertyApi.getCategories({ signal: controller.signal })
+    );
+
+    categoryList.result.then(setCategories).catch((err) => {
+      if (!isAbortError(err)) {
+        setError(err as ApiError);
+      }
+    });
+
+    return () => controller.abort();
+  }, [reloadKey]);
+
+  const retry = () => {
+    setError(null);
+    setReloadKey((key) => key + 1);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="container mx-auto px-4 py-6">
+          <Link href="/" className="flex items-center gap-3 w-fit">
+            <Building2 className="w-8 h-8 text-blue-600" />
+            <div>
+              <p className="text-3xl font-bold text-gray-900">Real Estate Listings</p>
+              <p className="text-sm text-gray-600">Find your dream property</p>
+            </div>
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 max-w-5xl">
+        <Link
+          href="/"
+          className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-medium mb-6"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to listings
+        </Link>
+
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Import properties</h1>
+        {error ? (
+          <ErrorMessage
+            message={error.message || 'Failed to load categories. Please try again.'}
+            onRetry={retry}
+          />
+        ) : (
+          <PropertyImport categories={categories} />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,143 +1,252 @@
 'use client';
 
-import { useState, useMemo, useEffect, useRef } from 'react';
-import { Property, PropertyFilter as PropertyFilterType, Category } from '@/types';
+import { Suspense, useState, useMemo } from 'react';
+import Link from 'next/link';
+import { Property, PropertyInput } from '@/types';
 import PropertyCard from '@/components/PropertyCard';
 import AddPropertyForm from '@/components/AddPropertyForm';
+import EditPropertyForm from '@/components/EditPropertyForm';
+import PropertyDetails from '@/components/PropertyDetails';
 import PropertyFilter from '@/components/PropertyFilter';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import ErrorMessage from '@/components/ErrorMessage';
-import { Building2, Home as HomeIcon, X } from 'lucide-react';
-import { propertyApi } from '@/lib/api/propertyService';
+import Pagination from '@/components/Pagination';
+import SavedSearches from '@/components/SavedSearches';
+import NotificationCenter from '@/components/NotificationCenter';
+import Modal from '@/components/Modal';
+import BulkActionBar, { BulkProgress } from '@/components/BulkActionBar';
+import ExportMenu from '@/components/ExportMenu';
+import { Building2, CheckSquare, ExternalLink, Home as HomeIcon, Pencil, Upload } from 'lucide-react';
 import { ApiError } from '@/lib/api/types';
+import { getAllProperties } from '@/lib/api/propertyService';
 import { useToastContext } from '@/providers/ToastProvider';
+import { useConfirm } from '@/providers/ConfirmProvider';
+import { BulkOptions, BulkResult, describeBulkFailures } from '@/lib/utils/bulkOperations';
+import { isTempId } from '@/lib/utils/optimisticUpdates';
+import { useProperties } from '@/hooks/useProperties';
+import { useFilterSearchParams } from '@/hooks/useFilterSearchParams';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { usePropertySelection } from '@/hooks/usePropertySelection';
 
+// How long the "Deleted" toast offers Undo; the countdown pauses on hover
+// and only starts once the toast is on screen
+const UNDO_DELETE_MS = 5000;
+
+// useSearchParams needs a Suspense boundary for the static render
 export default function Home() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex justify-center items-center min-h-screen">
+          <LoadingSpinner size="lg" text="Loading properties..." />
+        </div>
+      }
+    >
+      <PropertyListing />
+    </Suspense>
+  );
+}
+
+function PropertyListing() {
   const toast = useToastContext();
-  const [properties, setProperties] = useState<Property[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [filter, setFilter] = useState<PropertyFilterType>({
-    name: '',
-    address: '',
-    priceMin: null,
-    priceMax: null,
-    type: null,
-    active: null,
+  const confirm = useConfirm();
+  // Filters live in the query string so searches can be shared and restored
+  const [filter, setFilter] = useFilterSearchParams();
+  const {
+    properties,
+    categories,
+    isLoading,
+    error,
+    pagination,
+    setPage,
+    refresh,
+    createProperty,
+    updateProperty,
+    scheduleDelete,
+    isDeletePending,
+    updateMany,
+    deleteMany,
+  } = useProperties(filter);
+  const savedSearches = useSavedSearches({
+    onError: (err) => toast.error('Error', `Saved searches: ${err.message}`),
   });
   const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [isSubmitting, setIsSubmitting] = useState(false);
-
-  // Debounce timer ref
-  const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
-
-  // Fetch initial data
-  useEffect(() => {
-    loadData();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  // Reload data when filters change (with debouncing)
-  useEffect(() => {
-    // Clear existing timer
-    if (debounceTimerRef.current) {
-      clearTimeout(debounceTimerRef.current);
-    }
-
-    // Set new timer - wait 500ms after user stops typing
-    debounceTimerRef.current = setTimeout(() => {
-      loadData();
-    }, 500);
-
-    // Cleanup function
-    return () => {
-      if (debounceTimerRef.current) {
-        clearTimeout(debounceTimerRef.current);
-      }
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filter]);
-
-  const loadData = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      const [propertiesData, categoriesData] = await Promise.all([
-        propertyApi.getProperties({
-          name: filter.name || undefined,
-          address: filter.address || undefined,
-          priceMin: filter.priceMin ?? undefined,
-          priceMax: filter.priceMax ?? undefined,
-          type: filter.type || undefined,
-          active: filter.active ?? undefined,
-        }),
-        propertyApi.getCategories(),
-      ]);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+  // Unsaved (temp) properties cannot be selected
+  const selectableIds = useMemo(
+    () => properties.filter((p) => !isTempId(p.id)).map((p) => p.id),
+    [properties]
+  );
+  const selection = usePropertySelection(selectableIds);
+  const [editingProperty, setEditingProperty] = useState<Property | null>(null);
 
-      setProperties(propertiesData);
-      setCategories(categoriesData);
-    } catch (err) {
-      const apiError = err as ApiError;
-      setError(apiError.message || 'Failed to load data. Please try again.');
-      console.error('Error loading data:', err);
-    } finally {
-      setIsLoading(false);
-    }
+  // Change page
+  const changePage = (pageNumber: number) => {
+    setPage(pageNumber);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  // Add property
-  const addProperty = async (input: Omit<Property, 'id' | 'createdAt'>) => {
+  // Add property - shown immediately under a temporary ID
+  const addProperty = async (input: PropertyInput) => {
     try {
-      setIsSubmitting(true);
-      const newProperty = await propertyApi.createProperty(input);
-      setProperties((prev) => [newProperty, ...prev]);
-      toast.success('Success!', 'Property created successfully');
+      await toast.promise(createProperty(input), {
+        loading: { title: 'Saving...', message: 'Creating property' },
+        success: 'Property created successfully',
+        error: (err) => ({
+          message: `Failed to create property: ${(err as ApiError).message}`,
+          actions: [{ label: 'Retry', onClick: () => addProperty(input) }],
+        }),
+      });
     } catch (err) {
-      const apiError = err as ApiError;
-      toast.error('Error', `Failed to create property: ${apiError.message}`);
       console.error('Error creating property:', err);
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
   // View property
   const viewProperty = (id: string) => {
     const property = properties.find((p) => p.id === id);
-    if (property) {
+    if (property && !isTempId(id)) {
       setSelectedProperty(property);
     }
   };
 
-  // Delete property
-  const deleteProperty = async (id: string) => {
+  // Edit property
+  const editProperty = (id: string) => {
     const property = properties.find((p) => p.id === id);
-
-    // Use native confirm for now (could be replaced with a custom modal later)
-    const confirmed = confirm(`Are you sure you want to delete "${property?.name}"?`);
-    if (!confirmed) {
-      return;
+    if (property && !isTempId(id)) {
+      setEditingProperty(property);
     }
+  };
 
+  // Save edited property - only the changed fields are sent
+  // The list reflects the edit right away and is rolled back if the save fails
+  const saveProperty = async (id: string, changes: Partial<PropertyInput>) => {
     try {
-      await propertyApi.deleteProperty(id);
-      setProperties((prev) => prev.filter((p) => p.id !== id));
+      const updated = await updateProperty(id, changes);
       if (selectedProperty?.id === id) {
-        setSelectedProperty(null);
+        setSelectedProperty(updated);
       }
-      toast.success('Deleted!', 'Property deleted successfully');
+      setEditingProperty(null);
+      toast.success('Saved!', 'Property updated successfully');
     } catch (err) {
       const apiError = err as ApiError;
-      toast.error('Error', `Failed to delete property: ${apiError.message}`);
-      console.error('Error deleting property:', err);
+      toast.errorFromApi(apiError, `Failed to update property: ${apiError.message}`, {
+        // Failures are reported by the retried call's own toast
+        onRetry: () => saveProperty(id, changes).catch(() => {}),
+      });
+      console.error('Error updating property:', err);
+      // Keep the form open so the changes are not lost
+      throw apiError;
+    }
+  };
+
+  // Delete property - the card is hidden right away and the request is only sent
+  // once the undo toast closes (or the page is left)
+  const deleteProperty = async (id: string) => {
+    const property = properties.find((p) => p.id === id);
+    if (!property || isTempId(id) || isDeletePending(id)) {
+      return;
+    }
+
+    const confirmed = await confirm({
+      title: 'Delete property?',
+      message: `"${property.name}" will be removed from the listings.`,
+      confirmLabel: 'Delete',
+      destructive: true,
+    });
+    if (!confirmed) {
+      return;
+    }
+
+    // Null if it was deleted from elsewhere while the dialog was open
+    const pending = scheduleDelete(id, {
+      onError: (apiError, retry) => {
+        toast.errorFromApi(apiError, `Failed to delete property: ${apiError.message}`, {
+          onRetry: retry,
+        });
+        console.error('Error deleting property:', apiError);
+      },
+    });
+    if (!pending) {
+      return;
+    }
+    if (selectedProperty?.id === id) {
+      setSelectedProperty(null);
+    }
+
+    toast.info('Deleted', `"${property.name}" was deleted`, UNDO_DELETE_MS, {
+      actions: [{ label: 'Undo', onClick: pending.undo }],
+      onDismiss: pending.commit,
+    });
+  };
+
+  const exitSelection = () => {
+    selection.clear();
+    setIsSelecting(false);
+  };
+
+  // Run the bulk action on the selection, then report every outcome in one toast
+  // Failed properties stay selected so the action can be retried
+  const runBulkAction = async (
+    verb: string,
+    run: (ids: string[], options: BulkOptions) => Promise<BulkResult<Property, unknown>>
+  ) => {
+    const ids = selection.selectedIds;
+    if (ids.length === 0) {
+      return;
+    }
+
+    setBulkProgress({ completed: 0, total: ids.length });
+    const { succeeded, failed } = await run(ids, {
+      onProgress: (completed, total) => setBulkProgress({ completed, total }),
+    });
+    setBulkProgress(null);
+
+    selection.deselect(succeeded.map(({ item }) => item.id));
+
+    const total = succeeded.length + failed.length;
+    const count = (n: number) => `${n} ${n === 1 ? 'property' : 'properties'}`;
+    if (failed.length === 0) {
+      toast.success('Done', `${verb} ${count(succeeded.length)}`);
+      return;
+    }
+
+    const summary = `${verb} ${succeeded.length} of ${count(total)}. Failed: ${describeBulkFailures(
+      failed,
+      (property) => property.name
+    )}`;
+    if (succeeded.length > 0) {
+      toast.warning('Partially completed', summary, 10000);
+    } else {
+      toast.error('Bulk action failed', summary, 10000);
+    }
+    console.error('Bulk action failures:', failed);
+  };
+
+  const bulkUpdate = (verb: string, changes: Partial<PropertyInput>) =>
+    runBulkAction(verb, (ids, options) => updateMany(ids, changes, options));
+
+  // Bulk deletes skip the undo window, so the confirmation is stricter
+  const bulkDelete = async () => {
+    const count = selection.selectedIds.length;
+    const confirmed = await confirm({
+      title: `Delete ${count} ${count === 1 ? 'property' : 'properties'}?`,
+      message: 'The selected properties will be permanently removed. This cannot be undone.',
+      confirmLabel: 'Delete',
+      destructive: true,
+      confirmText: 'DELETE',
+    });
+    if (!confirmed) {
+      return;
     }
+
+    await runBulkAction('Deleted', deleteMany);
   };
 
   // Apply filters - now just returns the properties from server
   const filteredProperties = useMemo(() => {
-    // Server-side filtering is now handled in loadData
+    // Server-side filtering is now handled in useProperties
     // This is just to maintain the same structure
     return properties;
   }, [properties]);
@@ -147,11 +256,29 @@ export default function Home() {
       {/* Header */}
       <header className="bg-white shadow-sm border-b border-gray-200">
         <div className="container mx-auto px-4 py-6">
-          <div className="flex items-center gap-3">
-            <Building2 className="w-8 h-8 text-blue-600" />
-            <div>
-              <h1 className="text-3xl font-bold text-gray-900">Real Estate Listings</h1>
-              <p className="text-sm text-gray-600">Find your dream property</p>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Building2 className="w-8 h-8 text-blue-600" />
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">Real Estate Listings</h1>
+                <p className="text-sm text-gray-600">Find your dream property</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              <Link
+                href="/import"
+                className="flex items-center gap-2 text-sm font-semibold text-blue-600 hover:text-blue-700 transition-colors"
+              >
+                <Upload className="w-4 h-4" />
+                Import
+              </Link>
+              <NotificationCenter
+                notifications={toast.history.notifications}
+                unreadCount={toast.history.unreadCount}
+                onMarkRead={toast.history.markRead}
+                onMarkAllRead={toast.history.markAllRead}
+                onClear={toast.history.clearAll}
+              />
             </div>
           </div>
         </div>
@@ -166,44 +293,95 @@ export default function Home() {
           </div>
         ) : error ? (
           // Error State
-          <ErrorMessage message={error} onRetry={loadData} />
+          <ErrorMessage
+            message={error.message || 'Failed to load data. Please try again.'}
+            onRetry={() => refresh()}
+          />
         ) : (
           <>
             {/* Add Property Form */}
             <div className="mb-6">
               <AddPropertyForm onAdd={addProperty} categories={categories} />
-              {isSubmitting && (
-                <div className="mt-3 flex items-center gap-2 text-blue-600">
-                  <LoadingSpinner size="sm" />
-                  <span className="text-sm font-medium">Creating property...</span>
-                </div>
-              )}
             </div>
 
-            {/* Filter */}
-            <div className="mb-8">
+            {/* Filter + Saved Searches */}
+            <div className="mb-8 grid grid-cols-1 lg:grid-cols-[1fr_20rem] gap-6 items-start">
               <PropertyFilter filter={filter} onChange={setFilter} categories={categories} />
+              <SavedSearches
+                searches={savedSearches.searches}
+                currentFilter={filter}
+                isLoading={savedSearches.isLoading}
+                onApply={(saved) => setFilter(saved, 'push')}
+                onSave={async (name) => {
+                  await savedSearches.saveSearch(name, filter);
+                  toast.success('Saved!', `Search "${name}" saved`);
+                }}
+                onRename={savedSearches.renameSearch}
+                onDelete={savedSearches.deleteSearch}
+              />
             </div>
 
             {/* Results Count */}
-            <div className="mb-4">
+            <div className="mb-4 flex items-center justify-between gap-4">
               <p className="text-gray-700 font-medium">
-                Showing <span className="text-blue-600 font-bold">{filteredProperties.length}</span> properties
+                Found <span className="text-blue-600 font-bold">{pagination.totalRecords}</span> properties
               </p>
+              <div className="flex items-center gap-4">
+                {!isSelecting && filteredProperties.length > 0 && (
+                  <button
+                    onClick={() => setIsSelecting(true)}
+                    className="flex items-center gap-2 text-sm font-semibold text-blue-600 hover:text-blue-700 transition-colors"
+                  >
+                    <CheckSquare className="w-4 h-4" />
+                    Select
+                  </button>
+                )}
+                <ExportMenu
+                  properties={filteredProperties.filter((p) => !isTempId(p.id))}
+                  selectedIds={selection.selectedIds}
+                  totalRecords={pagination.totalRecords}
+                  loadAll={(signal) =>
+                    getAllProperties(filter, { signal }).then((all) =>
+                      all.filter((p) => !isDeletePending(p.id))
+                    )
+                  }
+                />
+              </div>
             </div>
 
             {/* Properties Grid */}
             {filteredProperties.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filteredProperties.map((property) => (
-                  <PropertyCard
-                    key={property.id}
-                    property={property}
-                    onView={viewProperty}
-                    onDelete={deleteProperty}
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {filteredProperties.map((property) => (
+                    <PropertyCard
+                      key={property.id}
+                      property={property}
+                      onView={viewProperty}
+                      onEdit={editProperty}
+                      onDelete={deleteProperty}
+                      onSelect={isSelecting && !isTempId(property.id) ? selection.toggle : undefined}
+                      selected={selection.isSelected(property.id)}
+                    />
+                  ))}
+                </div>
+
+                {isSelecting && (
+                  <BulkActionBar
+                    selectedCount={selection.selectedIds.length}
+                    allSelected={selection.allSelected}
+                    categories={categories}
+                    progress={bulkProgress}
+                    onSelectAll={selection.selectAll}
+                    onClear={selection.clear}
+                    onActivate={() => bulkUpdate('Activated', { active: true })}
+                    onDeactivate={() => bulkUpdate('Deactivated', { active: false })}
+                    onChangeType={(type) => bulkUpdate(`Changed type to ${type} for`, { type })}
+                    onDelete={bulkDelete}
+                    onExit={exitSelection}
                   />
-                ))}
-              </div>
+                )}
+              </>
             ) : (
               // Empty State
               <div className="flex flex-col items-center justify-center py-16 px-4">
@@ -212,14 +390,17 @@ export default function Home() {
                 </div>
                 <h3 className="text-xl font-semibold text-gray-900 mb-2">No properties found</h3>
                 <p className="text-gray-600 text-center max-w-md mb-6">
-                  {properties.length === 0
-                    ? 'Get started by adding your first property using the form above.'
-                    : 'Try adjusting your filters to see more results.'}
+                  {pagination.totalRecords > 0
+                    ? 'There are no properties left on this page.'
+                    : properties.length === 0
+                      ? 'Get started by adding your first property using the form above.'
+                      : 'Try adjusting your filters to see more results.'}
                 </p>
                 {properties.length > 0 && (
                   <button
                     onClick={() =>
                       setFilter({
+                        ...filter,
                         name: '',
                         address: '',
                         priceMin: null,
@@ -235,118 +416,63 @@ export default function Home() {
                 )}
               </div>
             )}
+
+            {/* Pagination - kept while other pages still have results */}
+            <Pagination {...pagination} onPageChange={changePage} />
           </>
         )}
       </main>
 
       {/* Property Details Modal */}
       {selectedProperty && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
-            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
-              <h2 className="text-2xl font-bold text-gray-900">Property Details</h2>
-              <button
-                onClick={() => setSelectedProperty(null)}
-                className="text-gray-500 hover:text-gray-700 transition-colors"
-              >
-                <X className="w-6 h-6" />
-              </button>
-            </div>
-
-            <div className="p-6">
-              {/* Image */}
-              {selectedProperty.imageUrl && (
-                <div className="mb-6 rounded-lg overflow-hidden">
-                  {/* eslint-disable-next-line @next/next/no-img-element */}
-                  <img
-                    src={selectedProperty.imageUrl}
-                    alt={selectedProperty.name}
-                    className="w-full h-64 object-cover"
-                  />
-                </div>
-              )}
-
-              {/* Details */}
-              <div className="space-y-4">
-                <div>
-                  <h3 className="text-2xl font-bold text-gray-900 mb-2">{selectedProperty.name}</h3>
-                  <div className="flex items-center gap-2 mb-4">
-                    <span className="bg-blue-100 text-blue-800 text-sm font-semibold px-3 py-1 rounded-full">
-                      {selectedProperty.type}
-                    </span>
-                    {selectedProperty.active ? (
-                      <span className="bg-green-100 text-green-800 text-sm font-semibold px-3 py-1 rounded-full">
-                        Active
-                      </span>
-                    ) : (
-                      <span className="bg-red-100 text-red-800 text-sm font-semibold px-3 py-1 rounded-full">
-                        Inactive
-                      </span>
-                    )}
-                  </div>
-                </div>
-
-                <div>
-                  <h4 className="text-sm font-semibold text-gray-700 mb-1">Price</h4>
-                  <p className="text-3xl font-bold text-green-600">
-                    {selectedProperty.priceProperty.toLocaleString('en-US', {
-                      style: 'currency',
-                      currency: 'USD',
-                      maximumFractionDigits: 0,
-                    })}
-                  </p>
-                </div>
-
-                <div>
-                  <h4 className="text-sm font-semibold text-gray-700 mb-1">Address</h4>
-                  <p className="text-gray-900">{selectedProperty.addressProperty}</p>
-                </div>
+        <Modal
+          title="Property Details"
+          onClose={() => setSelectedProperty(null)}
+          headerActions={
+            <Link
+              href={`/properties/${selectedProperty.id}`}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+            >
+              <ExternalLink className="w-4 h-4" />
+              Open page
+            </Link>
+          }
+        >
+          <PropertyDetails property={selectedProperty} />
 
-                <div>
-                  <h4 className="text-sm font-semibold text-gray-700 mb-1">Description</h4>
-                  <p className="text-gray-700 leading-relaxed">{selectedProperty.description}</p>
-                </div>
-
-                <div>
-                  <h4 className="text-sm font-semibold text-gray-700 mb-1">Listed Date</h4>
-                  <p className="text-gray-900">
-                    {new Date(selectedProperty.createdAt).toLocaleDateString('en-US', {
-                      year: 'numeric',
-                      month: 'long',
-                      day: 'numeric',
-                    })}
-                  </p>
-                </div>
-
-                {selectedProperty.idOwner && (
-                  <div>
-                    <h4 className="text-sm font-semibold text-gray-700 mb-1">Owner ID</h4>
-                    <p className="text-gray-900 font-mono text-sm">{selectedProperty.idOwner}</p>
-                  </div>
-                )}
-              </div>
-
-              {/* Actions */}
-              <div className="mt-6 pt-6 border-t border-gray-200 flex gap-3">
-                <button
-                  onClick={() => setSelectedProperty(null)}
-                  className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-900 px-6 py-3 rounded-md font-semibold transition-colors"
-                >
-                  Close
-                </button>
-                <button
-                  onClick={() => {
-                    deleteProperty(selectedProperty.id);
-                    setSelectedProperty(null);
-                  }}
-                  className="bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-md font-semibold transition-colors"
-                >
-                  Delete Property
-                </button>
-              </div>
-            </div>
+          {/* Actions */}
+          <div className="mt-6 pt-6 border-t border-gray-200 flex gap-3">
+            <button
+              onClick={() => setSelectedProperty(null)}
+              className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-900 px-6 py-3 rounded-md font-semibold transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={() => setEditingProperty(selectedProperty)}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-md font-semibold transition-colors"
+            >
+              <Pencil className="w-4 h-4" />
+              Edit
+            </button>
+            <button
+              onClick={() => deleteProperty(selectedProperty.id)}
+              className="bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-md font-semibold transition-colors"
+            >
+              Delete Property
+            </button>
           </div>
-        </div>
+        </Modal>
+      )}
+
+      {/* Edit Property Modal */}
+      {editingProperty && (
+        <EditPropertyForm
+          property={editingProperty}
+          categories={categories}
+          onSave={saveProperty}
+          onCancel={() => setEditingProperty(null)}
+        />
       )}
     </div>
   );
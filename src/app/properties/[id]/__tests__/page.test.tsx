@@ -0,0 +1,84 @@
+import { Suspense } from 'react';
+import { render, screen, act } from '@testing-library/react';
+import PropertyPage from '../page';
+import { propertyApi } from '@/lib/api/propertyService';
+import { Property } from '@/types';
+
+jest.mock('@/lib/api/propertyService');
+
+describe('PropertyPage', () => {
+  const mockProperty: Property = {
+    id: 'prop-1',
+    name: 'Beach House',
+    description: 'House by the beach',
+    addressProperty: '1 Ocean Dr, Miami, FL',
+    type: 'Villa',
+    priceProperty: 1250000,
+    imageUrl: 'https://example.com/house.jpg',
+    active: true,
+    createdAt: '2024-03-15T12:00:00Z',
+    idOwner: 'owner-1',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const renderPage = async (id: string) => {
+    await act(async () => {
+      render(
+        <Suspense fallback={null}>
+          <PropertyPage params={Promise.resolve({ id })} />
+        </Suspense>
+      );
+    });
+  };
+
+  it('loads and renders the full property details', async () => {
+    (propertyApi.getPropertyById as jest.Mock).mockResolvedValue(mockProperty);
+
+    await renderPage('prop-1');
+
+    expect(propertyApi.getPropertyById).toHaveBeenCalledWith('prop-1', {
+      signal: expect.any(AbortSignal),
+    });
+    expect(await screen.findByRole('heading', { level: 1, name: 'Beach House' })).toBeInTheDocument();
+    expect(screen.getByText('Villa')).toBeInTheDocument();
+    expect(screen.getByText('Active')).toBeInTheDocument();
+    expect(screen.getByText('$1,250,000')).toBeInTheDocument();
+    expect(screen.getByText('1 Ocean Dr, Miami, FL')).toBeInTheDocument();
+    expect(screen.getByText('House by the beach')).toBeInTheDocument();
+    expect(screen.getByText('March 15, 2024')).toBeInTheDocument();
+    expect(screen.getByText('owner-1')).toBeInTheDocument();
+    expect(screen.getByAltText('Beach House')).toHaveAttribute('src', mockProperty.imageUrl);
+  });
+
+  it('shows a not found state for unknown IDs', async () => {
+    (propertyApi.getPropertyById as jest.Mock).mockRejectedValue({
+      message: 'Property missing not found',
+      statusCode: 404,
+    });
+
+    await renderPage('missing');
+
+    expect(await screen.findByText('Property not found')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: /back to listings/i })).toHaveAttribute('href', '/');
+  });
+
+  it('shows an error with retry for other failures', async () => {
+    (propertyApi.getPropertyById as jest.Mock)
+      .mockRejectedValueOnce({ message: 'Server error', statusCode: 500 })
+      .mockResolvedValueOnce(mockProperty);
+
+    await renderPage('prop-1');
+
+    expect(await screen.findByText('Server error')).toBeInTheDocument();
+
+    await act(async () => {
+      screen.getByText(/try again/i).click();
+    });
+
+    expect(await screen.findByRole('heading', { level: 1, name: 'Beach House' })).toBeInTheDocument();
+    expect(propertyApi.getPropertyById).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,103 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Property } from '@/types';
+import PropertyDetails from '@/components/PropertyDetails';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import ErrorMessage from '@/components/ErrorMessage';
+import { ArrowLeft, Building2, SearchX } from 'lucide-react';
+import { propertyApi } from '@/lib/api/propertyService';
+import { ApiError } from '@/lib/api/types';
+import { isAbortError } from '@/lib/utils/errorHandler';
+
+interface PropertyPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default function PropertyPage({ params }: PropertyPageProps) {
+  const { id } = use(params);
+  const [property, setProperty] = useState<Property | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    propertyApi
+      .getPropertyById(id, { signal: controller.signal })
+      .then((data) => {
+        setProperty(data);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) {
+          setError(err as ApiError);
+        }
+      });
+
+    return () => controller.abort();
+  }, [id, reloadKey]);
+
+  const retry = () => {
+    setError(null);
+    setProperty(null);
+    setReloadKey((key) => key + 1);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="container mx-auto px-4 py-6">
+          <Link href="/" className="flex items-center gap-3 w-fit">
+            <Building2 className="w-8 h-8 text-blue-600" />
+            <div>
+              <p className="text-3xl font-bold text-gray-900">Real Estate Listings</p>
+              <p className="text-sm text-gray-600">Find your dream property</p>
+            </div>
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <Link
+          href="/"
+          className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-medium mb-6"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to listings
+        </Link>
+
+        {error?.statusCode === 404 ? (
+          // Not Found State
+          <div className="flex flex-col items-center justify-center py-16 px-4">
+            <div className="bg-gray-100 rounded-full p-6 mb-4">
+              <SearchX className="w-16 h-16 text-gray-400" />
+            </div>
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">Property not found</h1>
+            <p className="text-gray-600 text-center max-w-md">
+              This listing does not exist or has been removed.
+            </p>
+          </div>
+        ) : error ? (
+          // Error State
+          <ErrorMessage
+            message={error.message || 'Failed to load property. Please try again.'}
+            onRetry={retry}
+          />
+        ) : !property ? (
+          // Loading State
+          <div className="flex justify-center items-center py-20">
+            <LoadingSpinner size="lg" text="Loading property..." />
+          </div>
+        ) : (
+          <article className="bg-white rounded-lg shadow-md p-6">
+            <PropertyDetails property={property} headingLevel="h1" />
+          </article>
+        )}
+      </main>
+    </div>
+  );
+}
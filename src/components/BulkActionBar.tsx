@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { Category } from '@/types';
+import { CheckSquare, Eye, EyeOff, Tag, Trash2, X } from 'lucide-react';
+
+export interface BulkProgress {
+  completed: number;
+  total: number;
+}
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  allSelected: boolean;
+  categories: Category[];
+  onSelectAll: () => void;
+  onClear: () => void;
+  onActivate: () => void;
+  onDeactivate: () => void;
+  onChangeType: (type: string) => void;
+  onDelete: () => void;
+  onExit: () => void;
+  // Set while a bulk action is running
+  progress?: BulkProgress | null;
+}
+
+const actionClass =
+  'flex items-center gap-2 px-3 py-2 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+export default function BulkActionBar({
+  selectedCount,
+  allSelected,
+  categories,
+  onSelectAll,
+  onClear,
+  onActivate,
+  onDeactivate,
+  onChangeType,
+  onDelete,
+  onExit,
+  progress = null,
+}: BulkActionBarProps) {
+  const [type, setType] = useState('');
+
+  const isBusy = progress !== null;
+  const isDisabled = isBusy || selectedCount === 0;
+
+  const handleChangeType = (e: FormEvent) => {
+    e.preventDefault();
+    if (type) onChangeType(type);
+  };
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk actions"
+      className="sticky bottom-4 z-40 mt-6 bg-white border border-gray-200 rounded-lg shadow-lg px-4 py-3 flex flex-wrap items-center gap-3"
+    >
+      <p className="text-sm font-medium text-gray-900" aria-live="polite">
+        {isBusy
+          ? `Working… ${progress.completed} of ${progress.total}`
+          : `${selectedCount} selected`}
+      </p>
+
+      <button
+        onClick={allSelected ? onClear : onSelectAll}
+        disabled={isBusy}
+        className={`${actionClass} text-blue-600 hover:bg-blue-50`}
+      >
+        <CheckSquare className="w-4 h-4" />
+        {allSelected ? 'Deselect all' : 'Select all on page'}
+      </button>
+
+      <div className="flex flex-wrap items-center gap-2 ml-auto">
+        <button
+          onClick={onActivate}
+          disabled={isDisabled}
+          className={`${actionClass} bg-gray-100 hover:bg-gray-200 text-gray-900`}
+        >
+          <Eye className="w-4 h-4" />
+          Activate
+        </button>
+        <button
+          onClick={onDeactivate}
+          disabled={isDisabled}
+          className={`${actionClass} bg-gray-100 hover:bg-gray-200 text-gray-900`}
+        >
+          <EyeOff className="w-4 h-4" />
+          Deactivate
+        </button>
+
+        <form onSubmit={handleChangeType} className="flex items-center gap-2">
+          <label htmlFor="bulk-type" className="sr-only">
+            New property type
+          </label>
+          <select
+            id="bulk-type"
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            disabled={isDisabled}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Change type…</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.name}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={isDisabled || !type}
+            className={`${actionClass} bg-gray-100 hover:bg-gray-200 text-gray-900`}
+          >
+            <Tag className="w-4 h-4" />
+            Apply
+          </button>
+        </form>
+
+        <button
+          onClick={onDelete}
+          disabled={isDisabled}
+          className={`${actionClass} bg-red-600 hover:bg-red-700 text-white`}
+        >
+          <Trash2 className="w-4 h-4" />
+          Delete
+        </button>
+
+        <button
+          onClick={onExit}
+          disabled={isBusy}
+          aria-label="Exit selection mode"
+          className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * Confirm Dialog Component
+ * Styled replacement for window.confirm; usually driven through useConfirm()
+ */
+
+'use client';
+
+import { useEffect, useId, useRef, useState } from 'react';
+import { AlertTriangle, HelpCircle } from 'lucide-react';
+import { trapFocus } from './Modal';
+
+export interface ConfirmOptions {
+  title: string;
+  message?: string;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  destructive?: boolean;
+  // The user must type this exactly before confirming (irreversible actions)
+  confirmText?: string;
+}
+
+interface ConfirmDialogProps extends ConfirmOptions {
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export default function ConfirmDialog({
+  title,
+  message,
+  confirmLabel = 'Confirm',
+  cancelLabel = 'Cancel',
+  destructive = false,
+  confirmText,
+  onConfirm,
+  onCancel,
+}: ConfirmDialogProps) {
+  const [typed, setTyped] = useState('');
+  const id = useId();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const cancelRef = useRef<HTMLButtonElement>(null);
+  const confirmRef = useRef<HTMLButtonElement>(null);
+
+  const canConfirm = !confirmText || typed.trim() === confirmText.trim();
+
+  // Return focus to the trigger on close, like Modal
+  useEffect(() => {
+    const trigger = document.activeElement as HTMLElement | null;
+    return () => {
+      if (trigger && document.contains(trigger)) trigger.focus();
+    };
+  }, []);
+
+  // Start on the safest control: the input, or Cancel for destructive actions.
+  // Focus always moves in, so Enter cannot reach the button that opened it
+  useEffect(() => {
+    if (confirmText) {
+      inputRef.current?.focus();
+    } else if (destructive) {
+      cancelRef.current?.focus();
+    } else {
+      confirmRef.current?.focus();
+    }
+  }, [confirmText, destructive]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onCancel();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const Icon = destructive ? AlertTriangle : HelpCircle;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby={`${id}-title`}
+        aria-describedby={message ? `${id}-message` : undefined}
+        tabIndex={-1}
+        onKeyDown={(e) => {
+          if (dialogRef.current) trapFocus(e, dialogRef.current);
+        }}
+        className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 focus:outline-none"
+      >
+        <div className="flex items-start gap-4">
+          <div
+            className={`p-2 rounded-full shrink-0 ${
+              destructive ? 'bg-red-100 text-red-600' : 'bg-blue-100 text-blue-600'
+            }`}
+          >
+            <Icon className="w-6 h-6" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h2 id={`${id}-title`} className="text-lg font-semibold text-gray-900">
+              {title}
+            </h2>
+            {message && (
+              <p id={`${id}-message`} className="text-sm text-gray-600 mt-2">
+                {message}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canConfirm) onConfirm();
+          }}
+          className="mt-6 space-y-4"
+        >
+          {confirmText && (
+            <div>
+              <label htmlFor={`${id}-input`} className="block text-sm text-gray-700 mb-1">
+                Type <span className="font-semibold">{confirmText}</span> to confirm
+              </label>
+              <input
+                ref={inputRef}
+                id={`${id}-input`}
+                type="text"
+                value={typed}
+                onChange={(e) => setTyped(e.target.value)}
+                autoComplete="off"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              ref={cancelRef}
+              type="button"
+              onClick={onCancel}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-900 px-4 py-2 rounded-md font-semibold transition-colors"
+            >
+              {cancelLabel}
+            </button>
+            <button
+              ref={confirmRef}
+              type="submit"
+              disabled={!canConfirm}
+              className={`text-white px-4 py-2 rounded-md font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                destructive ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {confirmLabel}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
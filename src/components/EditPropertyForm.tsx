@@ -0,0 +1,43 @@
+'use client';
+
+import { Property, PropertyInput, Category } from '@/types';
+import { Save } from 'lucide-react';
+import Modal from '@/components/Modal';
+import PropertyForm from '@/components/PropertyForm';
+import { getPropertyChanges } from '@/lib/utils/propertyChanges';
+
+interface EditPropertyFormProps {
+  property: Property;
+  categories: Category[];
+  // Receives only the changed fields; reject to keep the form open
+  onSave: (id: string, changes: Partial<PropertyInput>) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+export default function EditPropertyForm({ property, categories, onSave, onCancel }: EditPropertyFormProps) {
+  const handleSubmit = async (input: PropertyInput) => {
+    const changes = getPropertyChanges(property, input);
+
+    // Nothing to send
+    if (Object.keys(changes).length === 0) {
+      onCancel();
+      return;
+    }
+
+    await onSave(property.id, changes);
+  };
+
+  return (
+    <Modal title="Edit Property" onClose={onCancel}>
+      <PropertyForm
+        categories={categories}
+        initialValues={property}
+        submitLabel="Save Changes"
+        submitIcon={<Save className="w-5 h-5" />}
+        idPrefix="edit-"
+        onSubmit={handleSubmit}
+        onCancel={onCancel}
+      />
+    </Modal>
+  );
+}
@@ -0,0 +1,211 @@
+/**
+ * Export Menu Component
+ * Downloads the listed properties as CSV or JSON with a column chooser
+ * With loadAll it exports every match of the filter, not just the visible page
+ */
+
+'use client';
+
+import { useEffect, useRef, useState, FormEvent } from 'react';
+import { Download } from 'lucide-react';
+import { Property } from '@/types';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  ExportColumn,
+  ExportFormat,
+  buildPropertyExport,
+} from '@/lib/utils/propertyExport';
+import { downloadTextFile } from '@/lib/utils/download';
+import { getUserFriendlyMessage, isAbortError, parseError } from '@/lib/utils/errorHandler';
+
+interface ExportMenuProps {
+  properties: Property[];
+  // When non-empty, the export defaults to just these rows
+  selectedIds?: string[];
+  // Fetches every property matching the current filter
+  loadAll?: (signal: AbortSignal) => Promise<Property[]>;
+  // Number of matching properties, shown before loadAll runs
+  totalRecords?: number;
+}
+
+export default function ExportMenu({
+  properties,
+  selectedIds = [],
+  loadAll,
+  totalRecords = properties.length,
+}: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+  const [selectedOnly, setSelectedOnly] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const hasSelection = selectedIds.length > 0;
+  const exportSelected = hasSelection && selectedOnly;
+  const exportAll = !exportSelected && Boolean(loadAll);
+  const rows = exportSelected ? properties.filter((p) => selectedIds.includes(p.id)) : properties;
+  const rowCount = exportAll ? totalRecords : rows.length;
+
+  // Cancel a running fetch when the menu closes or unmounts
+  useEffect(() => {
+    if (!isOpen) return;
+    return () => abortRef.current?.abort();
+  }, [isOpen]);
+
+  // Close on outside click or Escape while open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const toggleColumn = (key: ExportColumn) => {
+    setColumns((prev) => (prev.includes(key) ? prev.filter((c) => c !== key) : [...prev, key]));
+  };
+
+  const download = (list: Property[]) => {
+    const { content, filename, mimeType } = buildPropertyExport(list, format, columns);
+    downloadTextFile(content, filename, mimeType);
+    setIsOpen(false);
+  };
+
+  const handleExport = async (e: FormEvent) => {
+    e.preventDefault();
+    if (columns.length === 0 || rowCount === 0 || isExporting) return;
+    if (!exportAll || !loadAll) {
+      download(rows);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      download(await loadAll(controller.signal));
+    } catch (error) {
+      if (!isAbortError(error)) {
+        setExportError(getUserFriendlyMessage(parseError(error)));
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => {
+          setExportError(null);
+          setIsOpen((open) => !open);
+        }}
+        aria-expanded={isOpen}
+        aria-controls="export-menu-panel"
+        disabled={properties.length === 0}
+        className="flex items-center gap-2 text-sm font-semibold text-blue-600 hover:text-blue-700 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+      >
+        <Download className="w-4 h-4" />
+        Export
+      </button>
+
+      {isOpen && (
+        <form
+          id="export-menu-panel"
+          aria-label="Export properties"
+          onSubmit={handleExport}
+          className="absolute right-0 mt-2 w-72 bg-white rounded-lg shadow-lg border border-gray-200 z-30 p-4 space-y-4"
+        >
+          <fieldset>
+            <legend className="text-sm font-semibold text-gray-900 mb-2">Format</legend>
+            <div className="flex gap-4">
+              {(['csv', 'json'] as const).map((value) => (
+                <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="export-format"
+                    value={value}
+                    checked={format === value}
+                    onChange={() => setFormat(value)}
+                    className="accent-blue-600"
+                  />
+                  {value.toUpperCase()}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="text-sm font-semibold text-gray-900 mb-2">Columns</legend>
+            <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+              {EXPORT_COLUMNS.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(key)}
+                    onChange={() => toggleColumn(key)}
+                    className="accent-blue-600"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {hasSelection && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={selectedOnly}
+                onChange={(e) => setSelectedOnly(e.target.checked)}
+                className="accent-blue-600"
+              />
+              Only selected ({selectedIds.length})
+            </label>
+          )}
+
+          {!exportSelected && (
+            <p className="text-xs text-gray-500">
+              {exportAll ? 'All properties matching the current filters' : 'Properties on this page only'}
+            </p>
+          )}
+
+          {exportError && (
+            <p role="alert" className="text-sm text-red-600">
+              {exportError}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={columns.length === 0 || rowCount === 0 || isExporting}
+            className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            {isExporting
+              ? 'Preparing export...'
+              : `Download ${rowCount} ${rowCount === 1 ? 'row' : 'rows'}`}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Modal Component
+ * Accessible dialog rendered in a portal: traps focus, locks background scroll,
+ * closes on Escape or backdrop click and gives focus back to whatever opened it
+ */
+
+'use client';
+
+import { ReactNode, KeyboardEvent, useEffect, useId, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+
+interface ModalProps {
+  title: ReactNode;
+  onClose: () => void;
+  children: ReactNode;
+  headerActions?: ReactNode;
+  className?: string;
+}
+
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+
+const getFocusable = (root: HTMLElement) =>
+  Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+
+/**
+ * Wrap Tab and Shift+Tab around the ends of a dialog
+ * Shared with ConfirmDialog, which is not built on Modal
+ */
+export function trapFocus(event: KeyboardEvent<HTMLElement>, root: HTMLElement) {
+  if (event.key !== 'Tab') return;
+
+  const focusable = getFocusable(root);
+  if (focusable.length === 0) {
+    event.preventDefault();
+    return;
+  }
+  const first = focusable[0];
+  const last = focusable[focusable.length - 1];
+  const active = document.activeElement;
+
+  if (event.shiftKey && (active === first || active === root)) {
+    event.preventDefault();
+    last.focus();
+  } else if (!event.shiftKey && active === last) {
+    event.preventDefault();
+    first.focus();
+  }
+}
+
+export default function Modal({
+  title,
+  onClose,
+  children,
+  headerActions,
+  className = 'max-w-2xl',
+}: ModalProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+
+  // Focus the dialog on open and return focus to the trigger on close
+  useEffect(() => {
+    const trigger = document.activeElement as HTMLElement | null;
+    dialogRef.current?.focus();
+
+    return () => {
+      // The trigger may be gone, e.g. the card of a property just deleted
+      if (trigger && document.contains(trigger)) trigger.focus();
+    };
+  }, []);
+
+  useEffect(() => {
+    const { overflow } = document.body.style;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = overflow;
+    };
+  }, []);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape') {
+      event.stopPropagation();
+      onClose();
+      return;
+    }
+
+    if (dialogRef.current) trapFocus(event, dialogRef.current);
+  };
+
+  if (typeof document === 'undefined') return null;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        onKeyDown={handleKeyDown}
+        className={`bg-white rounded-lg w-full max-h-[90vh] overflow-y-auto focus:outline-none ${className}`}
+      >
+        <div className="sticky top-0 z-10 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 id={titleId} className="text-2xl font-bold text-gray-900">
+            {title}
+          </h2>
+          <div className="flex items-center gap-3">
+            {headerActions}
+            <button
+              onClick={onClose}
+              aria-label="Close"
+              className="text-gray-500 hover:text-gray-700 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">{children}</div>
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,165 @@
+/**
+ * Notification Center Component
+ * Bell button with a panel listing the notifications raised this session
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Bell, CheckCheck, Trash2 } from 'lucide-react';
+import { NotificationRecord } from '@/lib/storage/notificationHistoryStorage';
+import { colorMap, iconMap } from './ToastContainer';
+
+interface NotificationCenterProps {
+  notifications: NotificationRecord[];
+  unreadCount: number;
+  onMarkRead: (id: string) => void;
+  onMarkAllRead: () => void;
+  onClear: () => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+export default function NotificationCenter({
+  notifications,
+  unreadCount,
+  onMarkRead,
+  onMarkAllRead,
+  onClear,
+}: NotificationCenterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  // Close on outside click or Escape while open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+        buttonRef.current?.focus();
+      }
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        ref={buttonRef}
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        aria-controls="notification-center-panel"
+        aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+        className="relative p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-colors"
+      >
+        <Bell className="w-6 h-6" />
+        {unreadCount > 0 && (
+          <span
+            className="absolute -top-0.5 -right-0.5 min-w-5 h-5 px-1 bg-red-500 text-white text-xs font-semibold rounded-full flex items-center justify-center"
+            aria-hidden="true"
+          >
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          id="notification-center-panel"
+          role="region"
+          aria-label="Notification history"
+          className="absolute right-0 mt-2 w-96 max-w-[calc(100vw-2rem)] bg-white rounded-lg shadow-lg border border-gray-200 z-40"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h2 className="font-semibold text-gray-900">Notifications</h2>
+            <div className="flex gap-1">
+              <button
+                onClick={onMarkAllRead}
+                disabled={unreadCount === 0}
+                className="p-1.5 text-gray-500 hover:text-blue-600 disabled:opacity-40 disabled:cursor-not-allowed rounded transition-colors"
+                aria-label="Mark all as read"
+                title="Mark all as read"
+              >
+                <CheckCheck className="w-4 h-4" />
+              </button>
+              <button
+                onClick={onClear}
+                disabled={notifications.length === 0}
+                className="p-1.5 text-gray-500 hover:text-red-600 disabled:opacity-40 disabled:cursor-not-allowed rounded transition-colors"
+                aria-label="Clear all notifications"
+                title="Clear all"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-8 text-sm text-gray-500 text-center">No notifications yet</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map((notification) => {
+                const Icon = iconMap[notification.type];
+
+                return (
+                  <li key={notification.id}>
+                    <button
+                      onClick={() => onMarkRead(notification.id)}
+                      className={`w-full text-left px-4 py-3 flex items-start gap-3 hover:bg-gray-50 transition-colors ${
+                        notification.read ? '' : 'bg-blue-50/50'
+                      }`}
+                    >
+                      <span
+                        className={`${colorMap[notification.type]} p-1.5 rounded-full text-white shrink-0`}
+                        aria-hidden="true"
+                      >
+                        <Icon className="w-4 h-4" />
+                      </span>
+                      <span className="flex-1 min-w-0">
+                        <span className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-gray-900 truncate">
+                            {notification.title}
+                          </span>
+                          <time
+                            dateTime={notification.createdAt}
+                            className="text-xs text-gray-500 shrink-0"
+                          >
+                            {formatTime(notification.createdAt)}
+                          </time>
+                        </span>
+                        {notification.message && (
+                          <span className="block text-sm text-gray-600 mt-0.5">
+                            {notification.message}
+                          </span>
+                        )}
+                      </span>
+                      {!notification.read && (
+                        <span className="mt-2 w-2 h-2 bg-blue-600 rounded-full shrink-0">
+                          <span className="sr-only">Unread</span>
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
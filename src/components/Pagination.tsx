@@ -0,0 +1,99 @@
+'use client';
+
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PaginationProps {
+  pageNumber: number;
+  pageSize: number;
+  totalPages: number;
+  totalRecords: number;
+  onPageChange: (pageNumber: number) => void;
+}
+
+// Build the list of page buttons, collapsing distant pages into ellipses
+const getPageItems = (current: number, total: number): (number | 'ellipsis')[] => {
+  if (total <= 7) {
+    return Array.from({ length: total }, (_, i) => i + 1);
+  }
+
+  const items: (number | 'ellipsis')[] = [1];
+  const start = Math.max(2, current - 1);
+  const end = Math.min(total - 1, current + 1);
+
+  if (start > 2) items.push('ellipsis');
+  for (let page = start; page <= end; page++) {
+    items.push(page);
+  }
+  if (end < total - 1) items.push('ellipsis');
+  items.push(total);
+
+  return items;
+};
+
+export default function Pagination({
+  pageNumber,
+  pageSize,
+  totalPages,
+  totalRecords,
+  onPageChange,
+}: PaginationProps) {
+  if (totalRecords === 0) return null;
+
+  const firstItem = (pageNumber - 1) * pageSize + 1;
+  const lastItem = Math.min(pageNumber * pageSize, totalRecords);
+
+  return (
+    <nav
+      aria-label="Pagination"
+      className="mt-8 flex flex-col sm:flex-row items-center justify-between gap-4"
+    >
+      <p className="text-sm text-gray-700">
+        Showing <span className="font-semibold">{firstItem}</span>–
+        <span className="font-semibold">{lastItem}</span> of{' '}
+        <span className="font-semibold">{totalRecords}</span>
+      </p>
+
+      {totalPages > 1 && (
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onPageChange(pageNumber - 1)}
+            disabled={pageNumber <= 1}
+            aria-label="Previous page"
+            className="p-2 rounded-md text-gray-700 hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+
+          {getPageItems(pageNumber, totalPages).map((item, index) =>
+            item === 'ellipsis' ? (
+              <span key={`ellipsis-${index}`} className="px-2 text-gray-500">
+                …
+              </span>
+            ) : (
+              <button
+                key={item}
+                onClick={() => onPageChange(item)}
+                aria-current={item === pageNumber ? 'page' : undefined}
+                className={`min-w-10 px-3 py-2 rounded-md font-medium transition-colors ${item === pageNumber
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+              >
+                {item}
+              </button>
+            )
+          )}
+
+          <button
+            onClick={() => onPageChange(pageNumber + 1)}
+            disabled={pageNumber >= totalPages}
+            aria-label="Next page"
+            className="p-2 rounded-md text-gray-700 hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      )}
+    </nav>
+  );
+}
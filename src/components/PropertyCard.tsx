@@ -1,15 +1,29 @@
 'use client';
 
+import Link from 'next/link';
 import { Property } from '@/types';
-import { Eye, Trash2, MapPin, DollarSign } from 'lucide-react';
+import { isTempId } from '@/lib/utils/optimisticUpdates';
+import { Eye, Maximize2, Pencil, Trash2, MapPin, DollarSign } from 'lucide-react';
 
 interface PropertyCardProps {
   property: Property;
-  onView: (id: string) => void;
+  // Opens an in-page quick view; View always links to /properties/[id]
+  onView?: (id: string) => void;
+  onEdit?: (id: string) => void;
   onDelete?: (id: string) => void;
+  // Shows a selection checkbox; `range` is true for shift-clicks
+  onSelect?: (id: string, range: boolean) => void;
+  selected?: boolean;
 }
 
-export default function PropertyCard({ property, onView, onDelete }: PropertyCardProps) {
+export default function PropertyCard({
+  property,
+  onView,
+  onEdit,
+  onDelete,
+  onSelect,
+  selected = false,
+}: PropertyCardProps) {
   const formatPrice = (price: number) => {
     return price.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
   };
@@ -31,7 +45,11 @@ export default function PropertyCard({ property, onView, onDelete }: PropertyCar
   };
 
   return (
-    <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-xl transition-shadow duration-300 flex flex-col h-full">
+    <div
+      className={`bg-white rounded-lg shadow-md overflow-hidden hover:shadow-xl transition-shadow duration-300 flex flex-col h-full ${
+        selected ? 'ring-2 ring-blue-600' : ''
+      }`}
+    >
       {/* Image */}
       <div className="relative h-48 w-full overflow-hidden bg-gray-200">
         {property.imageUrl ? (
@@ -54,6 +72,19 @@ export default function PropertyCard({ property, onView, onDelete }: PropertyCar
           </div>
         )}
 
+        {/* Selection checkbox */}
+        {onSelect && (
+          <label className="absolute bottom-2 left-2 bg-white/90 rounded-md p-1.5 shadow flex cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected}
+              onChange={(e) => onSelect(property.id, (e.nativeEvent as MouseEvent).shiftKey === true)}
+              aria-label={`Select ${property.name}`}
+              className="w-5 h-5 accent-blue-600 cursor-pointer"
+            />
+          </label>
+        )}
+
         {/* Type badge */}
         <div className={`absolute top-2 left-2 ${getCategoryColor(property.type)} text-xs font-semibold px-3 py-1 rounded-full`}>
           {property.type}
@@ -85,17 +116,49 @@ export default function PropertyCard({ property, onView, onDelete }: PropertyCar
 
         {/* Actions */}
         <div className="flex gap-2 mt-auto">
-          <button
-            onClick={() => onView(property.id)}
-            className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md transition-colors duration-200 font-medium"
-          >
-            <Eye className="w-4 h-4" />
-            View
-          </button>
+          {/* Unsaved properties have no page yet */}
+          {isTempId(property.id) ? (
+            <button
+              disabled
+              className="flex-1 flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-md font-medium opacity-50 cursor-not-allowed"
+            >
+              <Eye className="w-4 h-4" />
+              View
+            </button>
+          ) : (
+            <Link
+              href={`/properties/${property.id}`}
+              className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md transition-colors duration-200 font-medium"
+            >
+              <Eye className="w-4 h-4" />
+              View
+            </Link>
+          )}
+
+          {onView && (
+            <button
+              onClick={() => onView(property.id)}
+              aria-label="Quick view"
+              className="flex items-center justify-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-900 px-4 py-2 rounded-md transition-colors duration-200 font-medium"
+            >
+              <Maximize2 className="w-4 h-4" />
+            </button>
+          )}
+
+          {onEdit && (
+            <button
+              onClick={() => onEdit(property.id)}
+              aria-label="Edit property"
+              className="flex items-center justify-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-900 px-4 py-2 rounded-md transition-colors duration-200 font-medium"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+          )}
 
           {onDelete && (
             <button
               onClick={() => onDelete(property.id)}
+              aria-label="Delete property"
               className="flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md transition-colors duration-200 font-medium"
             >
               <Trash2 className="w-4 h-4" />
@@ -0,0 +1,89 @@
+'use client';
+
+import { Property } from '@/types';
+
+interface PropertyDetailsProps {
+  property: Property;
+  // Heading level for the property name (h1 on its own page, h3 in the modal)
+  headingLevel?: 'h1' | 'h3';
+}
+
+export default function PropertyDetails({ property, headingLevel = 'h3' }: PropertyDetailsProps) {
+  const Heading = headingLevel;
+
+  return (
+    <>
+      {/* Image */}
+      {property.imageUrl && (
+        <div className="mb-6 rounded-lg overflow-hidden">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={property.imageUrl}
+            alt={property.name}
+            className="w-full h-64 object-cover"
+          />
+        </div>
+      )}
+
+      {/* Details */}
+      <div className="space-y-4">
+        <div>
+          <Heading className="text-2xl font-bold text-gray-900 mb-2">{property.name}</Heading>
+          <div className="flex items-center gap-2 mb-4">
+            <span className="bg-blue-100 text-blue-800 text-sm font-semibold px-3 py-1 rounded-full">
+              {property.type}
+            </span>
+            {property.active ? (
+              <span className="bg-green-100 text-green-800 text-sm font-semibold px-3 py-1 rounded-full">
+                Active
+              </span>
+            ) : (
+              <span className="bg-red-100 text-red-800 text-sm font-semibold px-3 py-1 rounded-full">
+                Inactive
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-1">Price</h4>
+          <p className="text-3xl font-bold text-green-600">
+            {property.priceProperty.toLocaleString('en-US', {
+              style: 'currency',
+              currency: 'USD',
+              maximumFractionDigits: 0,
+            })}
+          </p>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-1">Address</h4>
+          <p className="text-gray-900">{property.addressProperty}</p>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-1">Description</h4>
+          <p className="text-gray-700 leading-relaxed">{property.description}</p>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-1">Listed Date</h4>
+          <p className="text-gray-900">
+            {new Date(property.createdAt).toLocaleDateString('en-US', {
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric',
+            })}
+          </p>
+        </div>
+
+        {property.idOwner && (
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-1">Owner ID</h4>
+            <p className="text-gray-900 font-mono text-sm">{property.idOwner}</p>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -1,7 +1,16 @@
 'use client';
 
-import { PropertyFilter as PropertyFilterType, Category } from '@/types';
+import { PropertyFilter as PropertyFilterType, PropertySortField, SortDirection, Category } from '@/types';
 import { Search, X } from 'lucide-react';
+import { getFilterTypes } from '@/lib/api/propertyQuery';
+
+const SORT_OPTIONS: { label: string; sortBy: PropertySortField; sortDir: SortDirection }[] = [
+  { label: 'Price: Low to High', sortBy: 'price', sortDir: 'asc' },
+  { label: 'Price: High to Low', sortBy: 'price', sortDir: 'desc' },
+  { label: 'Newest', sortBy: 'createdAt', sortDir: 'desc' },
+  { label: 'Oldest', sortBy: 'createdAt', sortDir: 'asc' },
+  { label: 'Name: A–Z', sortBy: 'name', sortDir: 'asc' },
+];
 
 interface PropertyFilterProps {
   filter: PropertyFilterType;
@@ -10,12 +19,35 @@ interface PropertyFilterProps {
 }
 
 export default function PropertyFilter({ filter, onChange, categories = [] }: PropertyFilterProps) {
-  const handleChange = (field: keyof PropertyFilterType, value: string | number | boolean | null | undefined) => {
+  const handleChange = (field: keyof PropertyFilterType, value: string | string[] | number | boolean | null | undefined) => {
     onChange({ ...filter, [field]: value });
   };
 
+  const handleSortChange = (value: string) => {
+    const [sortBy, sortDir] = value ? value.split(':') : [null, null];
+    onChange({
+      ...filter,
+      sortBy: sortBy as PropertySortField | null,
+      sortDir: sortDir as SortDirection | null,
+    });
+  };
+
+  const selectedTypes = getFilterTypes(filter);
+
+  // Pills toggle independently; deselecting the last one means "All"
+  const toggleType = (name: string) => {
+    const next = selectedTypes.includes(name)
+      ? selectedTypes.filter((type) => type !== name)
+      : [...selectedTypes, name];
+    handleChange('type', next.length > 0 ? next : null);
+  };
+
+  const sortValue = filter.sortBy ? `${filter.sortBy}:${filter.sortDir || 'asc'}` : '';
+
+  // Sorting is not a filter, so the chosen order survives Clear All
   const handleClear = () => {
     onChange({
+      ...filter,
       name: '',
       address: '',
       priceMin: null,
@@ -30,7 +62,7 @@ export default function PropertyFilter({ filter, onChange, categories = [] }: Pr
     filter.address ||
     filter.priceMin ||
     filter.priceMax ||
-    filter.type ||
+    selectedTypes.length > 0 ||
     filter.active !== null;
 
   return (
@@ -119,34 +151,40 @@ export default function PropertyFilter({ filter, onChange, categories = [] }: Pr
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Property Type
+            {selectedTypes.length > 0 && (
+              <span className="ml-2 text-xs font-semibold text-blue-600">
+                {selectedTypes.length} selected
+              </span>
+            )}
           </label>
           <div className="flex flex-wrap gap-2">
             <button
               onClick={() => handleChange('type', null)}
-              className={`px-4 py-2 rounded-full font-medium transition-all duration-200 ${filter.type === null
+              aria-pressed={selectedTypes.length === 0}
+              className={`px-4 py-2 rounded-full font-medium transition-all duration-200 ${selectedTypes.length === 0
                   ? 'bg-blue-600 text-white shadow-md'
                   : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                 }`}
             >
               All
             </button>
-            {categories.map((category) => (
-              <button
-                key={category.id}
-                onClick={() => handleChange('type', category.name === filter.type ? null : category.name)}
-                className={`px-4 py-2 rounded-full font-medium transition-all duration-200 ${filter.type === category.name
-                    ? 'text-white shadow-md'
-                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                  }`}
-                style={
-                  filter.type === category.name
-                    ? { backgroundColor: category.color }
-                    : {}
-                }
-              >
-                {category.name}
-              </button>
-            ))}
+            {categories.map((category) => {
+              const isSelected = selectedTypes.includes(category.name);
+              return (
+                <button
+                  key={category.id}
+                  onClick={() => toggleType(category.name)}
+                  aria-pressed={isSelected}
+                  className={`px-4 py-2 rounded-full font-medium transition-all duration-200 ${isSelected
+                      ? 'text-white shadow-md'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  style={isSelected ? { backgroundColor: category.color } : {}}
+                >
+                  {category.name}
+                </button>
+              );
+            })}
           </div>
         </div>
       )}
@@ -186,6 +224,26 @@ export default function PropertyFilter({ filter, onChange, categories = [] }: Pr
           </button>
         </div>
       </div>
+
+      {/* Sort */}
+      <div>
+        <label htmlFor="filter-sort" className="block text-sm font-medium text-gray-700 mb-1">
+          Sort By
+        </label>
+        <select
+          id="filter-sort"
+          value={sortValue}
+          onChange={(e) => handleSortChange(e.target.value)}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none bg-white"
+        >
+          <option value="">Default</option>
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.label} value={`${option.sortBy}:${option.sortDir}`}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,336 @@
+'use client';
+
+import { useState, ReactNode } from 'react';
+import { Property, PropertyInput, Category } from '@/types';
+import { X, Upload } from 'lucide-react';
+import { propertyApi } from '@/lib/api/propertyService';
+import { parseError } from '@/lib/utils/errorHandler';
+import {
+  validatePropertyInput,
+  hasValidationErrors,
+  PropertyValidationErrors,
+} from '@/lib/utils/propertyValidation';
+
+interface PropertyFormProps {
+  categories: Category[];
+  // Pre-fills the fields when editing an existing property
+  initialValues?: Property;
+  submitLabel: string;
+  submitIcon?: ReactNode;
+  // Prefix for input ids, so two forms can be on the page at once
+  idPrefix?: string;
+  onSubmit: (input: PropertyInput) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+const toFormData = (property: Property | undefined, categories: Category[]) => ({
+  name: property?.name ?? '',
+  description: property?.description ?? '',
+  addressProperty: property?.addressProperty ?? '',
+  type: property?.type ?? (categories[0]?.name || 'House'),
+  priceProperty: property ? String(property.priceProperty) : '',
+  imageUrl: property?.imageUrl ?? '',
+  active: property?.active ?? true,
+  idOwner: property?.idOwner ?? '',
+});
+
+export default function PropertyForm({
+  categories,
+  initialValues,
+  submitLabel,
+  submitIcon,
+  idPrefix = '',
+  onSubmit,
+  onCancel,
+}: PropertyFormProps) {
+  const [formData, setFormData] = useState(() => toFormData(initialValues, categories));
+
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const [errors, setErrors] = useState<PropertyValidationErrors>({});
+
+  const fieldId = (name: string) => `${idPrefix}${name}`;
+
+  // Keep the current type selectable even if its category was removed
+  const typeOptions = categories.some((cat) => cat.name === formData.type)
+    ? categories.map((cat) => cat.name)
+    : [formData.type, ...categories.map((cat) => cat.name)];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input: PropertyInput = {
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      addressProperty: formData.addressProperty.trim(),
+      type: formData.type,
+      priceProperty: formData.priceProperty ? Number(formData.priceProperty) : 0,
+      imageUrl: formData.imageUrl.trim() || undefined,
+      active: formData.active,
+      idOwner: formData.idOwner.trim() || undefined,
+    };
+
+    // Validation
+    const newErrors = validatePropertyInput(input);
+    setErrors(newErrors);
+
+    if (hasValidationErrors(newErrors)) {
+      return;
+    }
+
+    try {
+      // Upload image if file is selected
+      if (selectedFile) {
+        setIsUploading(true);
+        setUploadError(null);
+
+        try {
+          const result = await propertyApi.uploadImage(selectedFile);
+          // Convert relative path to absolute URL for backend validation
+          // (absolute and data: URLs from the in-memory source are kept as-is)
+          input.imageUrl = result.imageUrl.startsWith('/')
+            ? `http://localhost:5000${result.imageUrl}`
+            : result.imageUrl;
+        } catch (error) {
+          // Upload failures are ApiError objects, not Error instances
+          setUploadError(parseError(error).message || 'Failed to upload image');
+          setIsUploading(false);
+          return;
+        }
+
+        setIsUploading(false);
+      }
+
+      // Submit - the parent decides whether to close the form
+      setIsSaving(true);
+      await onSubmit(input);
+    } catch (error) {
+      console.error('Error submitting property:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setSelectedFile(file);
+      setUploadError(null);
+
+      // Create preview
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        setImagePreview(reader.result as string);
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const clearImage = () => {
+    setSelectedFile(null);
+    setImagePreview(null);
+    setFormData(prev => ({ ...prev, imageUrl: '' }));
+  };
+
+  const handleChange = (field: keyof typeof formData, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field as keyof PropertyValidationErrors]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const isBusy = isUploading || isSaving;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {/* Name */}
+      <div>
+        <label htmlFor={fieldId('name')} className="block text-sm font-medium text-gray-700 mb-1">
+          Property Name *
+        </label>
+        <input
+          id={fieldId('name')}
+          type="text"
+          value={formData.name}
+          onChange={(e) => handleChange('name', e.target.value)}
+          className={`w-full px-4 py-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none ${errors.name ? 'border-red-500' : 'border-gray-300'
+            }`}
+          placeholder="e.g., Modern Downtown Loft"
+        />
+        {errors.name && <p className="text-red-500 text-xs mt-1">{errors.name[0]}</p>}
+      </div>
+
+      {/* Description */}
+      <div>
+        <label htmlFor={fieldId('description')} className="block text-sm font-medium text-gray-700 mb-1">
+          Description *
+        </label>
+        <textarea
+          id={fieldId('description')}
+          value={formData.description}
+          onChange={(e) => handleChange('description', e.target.value)}
+          rows={3}
+          className={`w-full px-4 py-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none ${errors.description ? 'border-red-500' : 'border-gray-300'
+            }`}
+          placeholder="Describe the property..."
+        />
+        {errors.description && <p className="text-red-500 text-xs mt-1">{errors.description[0]}</p>}
+      </div>
+
+      {/* Address */}
+      <div>
+        <label htmlFor={fieldId('address')} className="block text-sm font-medium text-gray-700 mb-1">
+          Address *
+        </label>
+        <input
+          id={fieldId('address')}
+          type="text"
+          value={formData.addressProperty}
+          onChange={(e) => handleChange('addressProperty', e.target.value)}
+          className={`w-full px-4 py-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none ${errors.addressProperty ? 'border-red-500' : 'border-gray-300'
+            }`}
+          placeholder="e.g., 123 Main St, City, State ZIP"
+        />
+        {errors.addressProperty && <p className="text-red-500 text-xs mt-1">{errors.addressProperty[0]}</p>}
+      </div>
+
+      {/* Type and Price */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor={fieldId('type')} className="block text-sm font-medium text-gray-700 mb-1">
+            Property Type *
+          </label>
+          <select
+            id={fieldId('type')}
+            value={formData.type}
+            onChange={(e) => handleChange('type', e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          >
+            {typeOptions.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor={fieldId('price')} className="block text-sm font-medium text-gray-700 mb-1">
+            Price *
+          </label>
+          <input
+            id={fieldId('price')}
+            type="number"
+            min="0"
+            step="1000"
+            value={formData.priceProperty}
+            onChange={(e) => handleChange('priceProperty', e.target.value)}
+            className={`w-full px-4 py-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none ${errors.priceProperty ? 'border-red-500' : 'border-gray-300'
+              }`}
+            placeholder="e.g., 500000"
+          />
+          {errors.priceProperty && <p className="text-red-500 text-xs mt-1">{errors.priceProperty[0]}</p>}
+        </div>
+      </div>
+
+      {/* Image Upload */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Property Image (optional)
+        </label>
+
+        {!imagePreview && !formData.imageUrl ? (
+          <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-blue-500 transition-colors">
+            <input
+              id={fieldId('image-upload')}
+              type="file"
+              accept="image/*"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <label
+              htmlFor={fieldId('image-upload')}
+              className="cursor-pointer flex flex-col items-center gap-2"
+            >
+              <Upload className="w-10 h-10 text-gray-400" />
+              <span className="text-sm text-gray-600">
+                Click to upload or drag and drop
+              </span>
+              <span className="text-xs text-gray-500">
+                PNG, JPG, GIF up to 5MB
+              </span>
+            </label>
+          </div>
+        ) : (
+          <div className="relative border-2 border-gray-300 rounded-lg p-4">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={imagePreview || formData.imageUrl}
+              alt="Property preview"
+              className="w-full h-48 object-cover rounded-md"
+            />
+            <button
+              type="button"
+              onClick={clearImage}
+              aria-label="Remove image"
+              className="absolute top-2 right-2 bg-red-500 hover:bg-red-600 text-white p-2 rounded-full shadow-lg transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {uploadError && (
+          <p className="text-red-500 text-sm mt-2">{uploadError}</p>
+        )}
+      </div>
+
+      {/* Active Status */}
+      <div className="flex items-center gap-2">
+        <input
+          id={fieldId('active')}
+          type="checkbox"
+          checked={formData.active}
+          onChange={(e) => handleChange('active', e.target.checked)}
+          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <label htmlFor={fieldId('active')} className="text-sm font-medium text-gray-700">
+          Active listing
+        </label>
+      </div>
+
+      {/* Submit */}
+      <div className="flex gap-3 pt-2">
+        <button
+          type="submit"
+          disabled={isBusy}
+          className="flex-1 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-md font-semibold transition-colors duration-200 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isBusy ? (
+            <>
+              <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+              {isUploading ? 'Uploading...' : 'Saving...'}
+            </>
+          ) : (
+            <>
+              {submitIcon}
+              {submitLabel}
+            </>
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isBusy}
+          className="px-6 py-3 border border-gray-300 rounded-md font-semibold text-gray-700 hover:bg-gray-50 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
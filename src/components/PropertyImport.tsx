@@ -0,0 +1,321 @@
+/**
+ * Property Import Component
+ * Upload a CSV/JSON file, map its columns, preview validation results and
+ * create the valid rows, with a downloadable report of everything that failed
+ */
+
+'use client';
+
+import { useMemo, useState, ChangeEvent } from 'react';
+import { AlertCircle, CheckCircle, Download, FileUp, RotateCcw, Upload, XCircle } from 'lucide-react';
+import { Category } from '@/types';
+import {
+  IMPORT_FIELDS,
+  ImportFailure,
+  ImportField,
+  ImportMapping,
+  ParsedImport,
+  buildFailureReport,
+  describeRowErrors,
+  detectImportFormat,
+  guessImportMapping,
+  isValidImportRow,
+  parseImportFile,
+  validateImportRows,
+} from '@/lib/utils/propertyImport';
+import { downloadTextFile } from '@/lib/utils/download';
+import { usePropertyImport } from '@/hooks/usePropertyImport';
+
+interface PropertyImportProps {
+  // null while the list is loading; files can be previewed but not imported
+  categories: Category[] | null;
+}
+
+// Large files are validated in full but only this many rows are listed
+const PREVIEW_LIMIT = 100;
+
+const readFileAsText = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read file'));
+    reader.readAsText(file);
+  });
+
+export default function PropertyImport({ categories }: PropertyImportProps) {
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const importer = usePropertyImport();
+
+  const rows = useMemo(() => {
+    if (!parsed) return [];
+    // Until categories load the type can only be checked for presence
+    const categoryNames = categories ? categories.map((c) => c.name) : undefined;
+    return validateImportRows(parsed.records, mapping, categoryNames);
+  }, [parsed, mapping, categories]);
+
+  const validRows = rows.filter(isValidImportRow);
+  const invalidCount = rows.length - validRows.length;
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    importer.reset();
+    setFileName(file.name);
+    setParsed(null);
+    setParseError(null);
+
+    const format = detectImportFormat(file.name);
+    if (!format) {
+      setParseError('Only .csv and .json files can be imported');
+      return;
+    }
+
+    try {
+      const result = parseImportFile(await readFileAsText(file), format);
+      if (result.records.length === 0) {
+        setParseError('The file has no rows to import');
+        return;
+      }
+      setParsed(result);
+      setMapping(guessImportMapping(result.headers));
+    } catch (err) {
+      setParseError((err as Error).message);
+    }
+  };
+
+  const setFieldColumn = (field: ImportField, column: string) => {
+    setMapping((prev) => ({ ...prev, [field]: column || undefined }));
+  };
+
+  const startOver = () => {
+    importer.reset();
+    setParsed(null);
+    setFileName('');
+    setParseError(null);
+  };
+
+  // Invalid rows, rejected creates and rows skipped by cancelling
+  const failures: ImportFailure[] = importer.result
+    ? [
+        ...rows
+          .filter((row) => !isValidImportRow(row))
+          .map((row) => ({ row, reason: describeRowErrors(row.errors) })),
+        ...importer.result.failed,
+        ...importer.result.skipped.map((row) => ({ row, reason: 'Not imported (cancelled)' })),
+      ].sort((a, b) => a.row.rowNumber - b.row.rowNumber)
+    : [];
+
+  const downloadReport = () => {
+    if (!parsed) return;
+    const base = fileName.replace(/\.[^.]+$/, '') || 'import';
+    downloadTextFile(
+      '\uFEFF' + buildFailureReport(parsed.headers, failures),
+      `${base}-failures.csv`,
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* File */}
+      <section className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-2">1. Choose a file</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          CSV with a header row, or a JSON array of objects. Files exported from the listings page can be
+          imported as they are.
+        </p>
+        <label
+          htmlFor="import-file"
+          className="inline-flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md font-semibold transition-colors cursor-pointer"
+        >
+          <FileUp className="w-5 h-5" />
+          Choose CSV or JSON file
+        </label>
+        <input
+          id="import-file"
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFile}
+          disabled={importer.isRunning}
+          className="sr-only"
+        />
+        {fileName && <span className="ml-3 text-sm text-gray-700">{fileName}</span>}
+        {parseError && (
+          <p role="alert" className="mt-3 text-sm text-red-600 flex items-center gap-2">
+            <AlertCircle className="w-4 h-4" />
+            {parseError}
+          </p>
+        )}
+      </section>
+
+      {parsed && (
+        <>
+          {/* Mapping */}
+          <section className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">2. Map columns</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(({ key, label, required }) => (
+                <div key={key}>
+                  <label htmlFor={`import-map-${key}`} className="block text-sm font-medium text-gray-700 mb-1">
+                    {label}
+                    {required && <span className="text-red-600"> *</span>}
+                  </label>
+                  <select
+                    id={`import-map-${key}`}
+                    value={mapping[key] ?? ''}
+                    onChange={(e) => setFieldColumn(key, e.target.value)}
+                    disabled={importer.isRunning}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Not mapped</option>
+                    {parsed.headers.map((header) => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {/* Preview */}
+          <section className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-2">3. Review</h2>
+            <p className="text-sm text-gray-700 mb-4">
+              <span className="font-semibold text-green-700">{validRows.length} ready to import</span>
+              {invalidCount > 0 && (
+                <>
+                  {', '}
+                  <span className="font-semibold text-red-600">{invalidCount} with errors</span>
+                </>
+              )}
+              {rows.length > PREVIEW_LIMIT && ` (showing the first ${PREVIEW_LIMIT} rows)`}
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="bg-gray-50 text-gray-700">
+                  <tr>
+                    <th scope="col" className="px-3 py-2">Row</th>
+                    <th scope="col" className="px-3 py-2">Name</th>
+                    <th scope="col" className="px-3 py-2">Address</th>
+                    <th scope="col" className="px-3 py-2">Type</th>
+                    <th scope="col" className="px-3 py-2">Price</th>
+                    <th scope="col" className="px-3 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rows.slice(0, PREVIEW_LIMIT).map((row) => {
+                    const isValid = isValidImportRow(row);
+                    return (
+                      <tr key={row.rowNumber} className={isValid ? '' : 'bg-red-50'}>
+                        <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-3 py-2 text-gray-900">{String(row.input.name ?? '')}</td>
+                        <td className="px-3 py-2 text-gray-700">{String(row.input.addressProperty ?? '')}</td>
+                        <td className="px-3 py-2 text-gray-700">{String(row.input.type ?? '')}</td>
+                        <td className="px-3 py-2 text-gray-700">{String(row.input.priceProperty ?? '')}</td>
+                        <td className="px-3 py-2">
+                          {isValid ? (
+                            <span className="inline-flex items-center gap-1 text-green-700">
+                              <CheckCircle className="w-4 h-4" />
+                              Valid
+                            </span>
+                          ) : (
+                            <span className="inline-flex items-start gap-1 text-red-600">
+                              <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                              {describeRowErrors(row.errors)}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          {/* Import */}
+          <section className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">4. Import</h2>
+
+            {importer.progress ? (
+              <div className="space-y-3">
+                <div
+                  role="progressbar"
+                  aria-label="Import progress"
+                  aria-valuemin={0}
+                  aria-valuemax={importer.progress.total}
+                  aria-valuenow={importer.progress.completed}
+                  className="h-2 bg-gray-100 rounded-full overflow-hidden"
+                >
+                  <div
+                    className="h-full bg-blue-600 transition-all"
+                    style={{
+                      width: `${(importer.progress.completed / importer.progress.total) * 100}%`,
+                    }}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-700" aria-live="polite">
+                    Imported {importer.progress.completed} of {importer.progress.total}
+                  </p>
+                  <button
+                    onClick={importer.cancel}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-900 px-4 py-2 rounded-md font-semibold transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : importer.result ? (
+              <div className="space-y-4">
+                <p role="status" className="text-gray-900">
+                  Created {importer.result.created.length}{' '}
+                  {importer.result.created.length === 1 ? 'property' : 'properties'}.
+                  {failures.length > 0 && ` ${failures.length} not imported.`}
+                  {importer.result.cancelled && ' The import was cancelled.'}
+                </p>
+                <div className="flex flex-wrap gap-3">
+                  {failures.length > 0 && (
+                    <button
+                      onClick={downloadReport}
+                      className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md font-semibold transition-colors"
+                    >
+                      <Download className="w-4 h-4" />
+                      Download failure report
+                    </button>
+                  )}
+                  <button
+                    onClick={startOver}
+                    className="flex items-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-900 px-4 py-2 rounded-md font-semibold transition-colors"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Import another file
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => importer.start(validRows)}
+                  disabled={!categories || validRows.length === 0}
+                  className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-md font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Upload className="w-5 h-5" />
+                  Import {validRows.length} {validRows.length === 1 ? 'property' : 'properties'}
+                </button>
+                {!categories && <p className="text-sm text-gray-500">Loading property types...</p>}
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { PropertyFilter, SavedSearch } from '@/types';
+import { Bookmark, Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { buildPropertySearchParams } from '@/lib/api/propertyQuery';
+
+interface SavedSearchesProps {
+  searches: SavedSearch[];
+  currentFilter: PropertyFilter;
+  onApply: (filter: PropertyFilter) => void;
+  onSave: (name: string) => void | Promise<unknown>;
+  onRename: (id: string, name: string) => void | Promise<unknown>;
+  onDelete: (id: string) => void | Promise<unknown>;
+  isLoading?: boolean;
+}
+
+// Two filters are the same search when they produce the same query string
+const toQuery = (filter: PropertyFilter) => buildPropertySearchParams(filter).toString();
+
+export default function SavedSearches({
+  searches,
+  currentFilter,
+  onApply,
+  onSave,
+  onRename,
+  onDelete,
+  isLoading = false,
+}: SavedSearchesProps) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const currentQuery = toQuery(currentFilter);
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    try {
+      await onSave(name);
+      setNewName('');
+    } catch {
+      // Keep the name so the user can retry
+    }
+  };
+
+  const startRename = (search: SavedSearch) => {
+    setEditingId(search.id);
+    setEditingName(search.name);
+  };
+
+  const handleRename = async (e: FormEvent) => {
+    e.preventDefault();
+    const name = editingName.trim();
+    if (!editingId || !name) return;
+    try {
+      await onRename(editingId, name);
+      setEditingId(null);
+    } catch {
+      // Stay in edit mode
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await onDelete(id);
+    } catch {
+      // Already reported through onError; the search stays listed
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+      <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+        <Bookmark className="w-5 h-5" />
+        Saved Searches
+      </h2>
+
+      {/* Save current filter */}
+      <form onSubmit={handleSave} className="flex gap-2">
+        <label htmlFor="saved-search-name" className="sr-only">
+          Search name
+        </label>
+        <input
+          id="saved-search-name"
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          placeholder="Name this search..."
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          aria-label="Save current search"
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white px-3 py-2 rounded-md transition-colors"
+        >
+          <Plus className="w-5 h-5" />
+        </button>
+      </form>
+
+      {/* List */}
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading saved searches...</p>
+      ) : searches.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved searches yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {searches.map((search) => {
+            const isCurrent = toQuery(search.filter) === currentQuery;
+
+            if (editingId === search.id) {
+              return (
+                <li key={search.id}>
+                  <form onSubmit={handleRename} className="flex gap-1">
+                    <label htmlFor={`rename-${search.id}`} className="sr-only">
+                      Rename {search.name}
+                    </label>
+                    <input
+                      id={`rename-${search.id}`}
+                      type="text"
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      autoFocus
+                      className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                    />
+                    <button
+                      type="submit"
+                      aria-label="Save name"
+                      className="p-1 text-green-600 hover:text-green-700 transition-colors"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(null)}
+                      aria-label="Cancel rename"
+                      className="p-1 text-gray-500 hover:text-gray-700 transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </form>
+                </li>
+              );
+            }
+
+            return (
+              <li
+                key={search.id}
+                className={`flex items-center gap-1 rounded-md ${isCurrent ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+              >
+                <button
+                  onClick={() => onApply(search.filter)}
+                  aria-current={isCurrent ? 'true' : undefined}
+                  className={`flex-1 min-w-0 text-left px-3 py-2 truncate font-medium ${isCurrent ? 'text-blue-700' : 'text-gray-700'}`}
+                  title={search.name}
+                >
+                  {search.name}
+                </button>
+                <button
+                  onClick={() => startRename(search)}
+                  aria-label={`Rename ${search.name}`}
+                  className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(search.id)}
+                  aria-label={`Delete ${search.name}`}
+                  className="p-1 mr-1 text-gray-400 hover:text-red-600 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,63 +1,230 @@
 /**
  * Toast Container Component
- * Displays toast notifications
+ * Displays toast notifications and announces them to screen readers
+ * F8 moves focus to the newest toast, Escape dismisses the focused one
  */
 
 'use client';
 
-import { X, CheckCircle, XCircle, AlertTriangle, Info } from 'lucide-react';
+import { KeyboardEvent, useEffect, useRef, useState } from 'react';
+import { X, CheckCircle, XCircle, AlertTriangle, Info, Loader2 } from 'lucide-react';
 import { Toast as ToastType } from '@/hooks/useToast';
 
 interface ToastContainerProps {
   toasts: ToastType[];
   onRemove: (id: string) => void;
+  onPause?: (id: string) => void;
+  onResume?: (id: string) => void;
+  queuedCount?: number;
 }
 
-const iconMap = {
+interface ToastItemProps {
+  toast: ToastType;
+  onRemove: (id: string) => void;
+  onPause?: (id: string) => void;
+  onResume?: (id: string) => void;
+}
+
+export const iconMap = {
   success: CheckCircle,
   error: XCircle,
   warning: AlertTriangle,
   info: Info,
+  loading: Loader2,
 };
 
-const colorMap = {
+export const TOAST_FOCUS_SHORTCUT = 'F8';
+
+// Errors and warnings interrupt; everything else waits for a pause
+const urgentTypes = new Set<ToastType['type']>(['error', 'warning']);
+
+export const colorMap = {
   success: 'bg-green-500',
   error: 'bg-red-500',
   warning: 'bg-yellow-500',
   info: 'bg-blue-500',
+  loading: 'bg-gray-400',
 };
 
-export default function ToastContainer({ toasts, onRemove }: ToastContainerProps) {
-  if (toasts.length === 0) return null;
+function ToastItem({ toast, onRemove, onPause, onResume }: ToastItemProps) {
+  const [isHovered, setIsHovered] = useState(false);
+  const [isFocused, setIsFocused] = useState(false);
+  const isActive = isHovered || isFocused;
 
-  return (
-    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 max-w-md">
-      {toasts.map((toast) => {
-        const Icon = iconMap[toast.type];
-        const bgColor = colorMap[toast.type];
+  // Keep the countdown paused while the user is reading or interacting
+  useEffect(() => {
+    if (!isActive) return;
+    onPause?.(toast.id);
+    return () => onResume?.(toast.id);
+  }, [isActive, toast.id, onPause, onResume]);
 
-        return (
-          <div
-            key={toast.id}
-            className="bg-white rounded-lg shadow-lg p-4 flex items-start gap-3 animate-in slide-in-from-right"
-          >
-            <div className={`${bgColor} p-2 rounded-full text-white shrink-0`}>
-              <Icon className="w-5 h-5" />
-            </div>
-            <div className="flex-1 min-w-0">
-              <h4 className="font-semibold text-gray-900">{toast.title}</h4>
-              <p className="text-sm text-gray-600 mt-1">{toast.message}</p>
-            </div>
-            <button
-              onClick={() => onRemove(toast.id)}
-              className="text-gray-400 hover:text-gray-600 transition-colors shrink-0"
-              aria-label="Close notification"
-            >
-              <X className="w-5 h-5" />
-            </button>
+  const Icon = iconMap[toast.type];
+  const bgColor = colorMap[toast.type];
+  const count = toast.count ?? 1;
+
+  return (
+    <div
+      data-toast-id={toast.id}
+      tabIndex={-1}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+      onFocus={() => setIsFocused(true)}
+      onBlur={(e) => setIsFocused(e.currentTarget.contains(e.relatedTarget as Node | null))}
+      className="bg-white rounded-lg shadow-lg overflow-hidden animate-in slide-in-from-right focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+    >
+      <div className="p-4 flex items-start gap-3">
+        <div className={`${bgColor} p-2 rounded-full text-white shrink-0`} aria-hidden="true">
+          <Icon className={`w-5 h-5 ${toast.type === 'loading' ? 'animate-spin' : ''}`} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <h4 className="font-semibold text-gray-900">{toast.title}</h4>
+            {count > 1 && (
+              <span
+                className="px-1.5 py-0.5 bg-gray-100 text-gray-700 text-xs font-semibold rounded-full"
+                aria-label={`Shown ${count} times`}
+              >
+                ×{count}
+              </span>
+            )}
           </div>
-        );
-      })}
+          <p className="text-sm text-gray-600 mt-1">{toast.message}</p>
+          {toast.actions && toast.actions.length > 0 && (
+            <div className="flex gap-3 mt-2">
+              {toast.actions.map((action) => (
+                <button
+                  key={action.label}
+                  onClick={() => {
+                    action.onClick();
+                    if (action.dismissOnClick !== false) {
+                      onRemove(toast.id);
+                    }
+                  }}
+                  className="text-sm font-semibold text-blue-600 hover:text-blue-700 transition-colors"
+                >
+                  {action.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <button
+          onClick={() => onRemove(toast.id)}
+          className="text-gray-400 hover:text-gray-600 transition-colors shrink-0"
+          aria-label="Close notification"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      {toast.duration !== undefined && toast.duration > 0 && (
+        <div className="h-1 bg-gray-100" aria-hidden="true">
+          {/* Keyed by count so a collapsed duplicate restarts the bar */}
+          <div
+            key={count}
+            data-testid="toast-progress"
+            className={`${bgColor} h-full origin-left`}
+            style={{
+              animation: `toast-progress ${toast.duration}ms linear forwards`,
+              animationPlayState: toast.paused ? 'paused' : 'running',
+            }}
+          />
+        </div>
+      )}
     </div>
   );
 }
+
+export default function ToastContainer({
+  toasts,
+  onRemove,
+  onPause,
+  onResume,
+  queuedCount = 0,
+}: ToastContainerProps) {
+  const regionRef = useRef<HTMLElement>(null);
+  // Where focus was before the shortcut, so it can go back there
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    const handleShortcut = (event: globalThis.KeyboardEvent) => {
+      if (event.key !== TOAST_FOCUS_SHORTCUT) return;
+      const items = regionRef.current?.querySelectorAll<HTMLElement>('[data-toast-id]');
+      if (!items || items.length === 0) return;
+
+      event.preventDefault();
+      if (!regionRef.current?.contains(document.activeElement)) {
+        returnFocusRef.current = document.activeElement as HTMLElement | null;
+      }
+      items[items.length - 1].focus();
+    };
+
+    window.addEventListener('keydown', handleShortcut);
+    return () => window.removeEventListener('keydown', handleShortcut);
+  }, []);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (event.key !== 'Escape') return;
+    const item = (event.target as HTMLElement).closest<HTMLElement>('[data-toast-id]');
+    if (!item) return;
+
+    event.stopPropagation();
+    const items = Array.from(
+      regionRef.current?.querySelectorAll<HTMLElement>('[data-toast-id]') ?? []
+    );
+    const index = items.indexOf(item);
+    const next = items[index + 1] ?? items[index - 1];
+
+    // Keep keyboard users inside the region until it is empty
+    if (next) {
+      next.focus();
+    } else {
+      returnFocusRef.current?.focus();
+      returnFocusRef.current = null;
+    }
+    onRemove(item.dataset.toastId as string);
+  };
+
+  // Keyed by type and count so a settled loading toast or a repeat is read again
+  const announcements = (urgent: boolean) =>
+    toasts
+      .filter((toast) => urgentTypes.has(toast.type) === urgent)
+      .map((toast) => (
+        <p key={`${toast.id}-${toast.type}-${toast.count ?? 1}`}>
+          {toast.title}. {toast.message}
+        </p>
+      ));
+
+  // Screen readers only announce changes inside live regions that already
+  // exist, so both stay mounted and the visible toasts are not live regions
+  return (
+    <>
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcements(false)}
+      </div>
+      <div role="alert" aria-live="assertive" className="sr-only">
+        {announcements(true)}
+      </div>
+      <section
+        ref={regionRef}
+        aria-label={`Notifications (${TOAST_FOCUS_SHORTCUT})`}
+        onKeyDown={handleKeyDown}
+        className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 max-w-md"
+      >
+        {toasts.map((toast) => (
+          <ToastItem
+            key={toast.id}
+            toast={toast}
+            onRemove={onRemove}
+            onPause={onPause}
+            onResume={onResume}
+          />
+        ))}
+        {queuedCount > 0 && (
+          <p className="text-xs text-gray-500 text-right">
+            +{queuedCount} more {queuedCount === 1 ? 'notification' : 'notifications'}
+          </p>
+        )}
+      </section>
+    </>
+  );
+}
@@ -1,6 +1,7 @@
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import AddPropertyForm from '../AddPropertyForm';
+import { propertyApi } from '@/lib/api/propertyService';
 import { Category } from '@/types';
 
 describe('AddPropertyForm', () => {
@@ -259,6 +260,28 @@ describe('AddPropertyForm', () => {
     expect(submitButton).toBeDisabled();
   });
 
+  it('shows the reason an image upload failed', async () => {
+    const user = userEvent.setup();
+    jest
+      .spyOn(propertyApi, 'uploadImage')
+      .mockRejectedValue({ message: 'Image must be 5 MB or smaller', statusCode: 413 });
+
+    render(<AddPropertyForm onAdd={mockOnAdd} categories={mockCategories} />);
+    await user.click(screen.getByText('Add New Property'));
+
+    await user.type(screen.getByLabelText(/property name/i), 'Test Property');
+    await user.type(screen.getByLabelText(/description/i), 'Test description');
+    await user.type(screen.getByLabelText(/address/i), '123 Test St');
+    await user.type(screen.getByLabelText(/price/i), '250000');
+    await user.upload(
+      document.getElementById('image-upload') as HTMLInputElement,
+      new File(['test'], 'test.jpg', { type: 'image/jpeg' })
+    );
+    await user.click(screen.getByRole('button', { name: /add property/i }));
+
+    expect(await screen.findByText('Image must be 5 MB or smaller')).toBeInTheDocument();
+  });
+
   it('handles image upload', async () => {
     const user = userEvent.setup();
     render(<AddPropertyForm onAdd={mockOnAdd} categories={mockCategories} />);
@@ -0,0 +1,101 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import BulkActionBar from '../BulkActionBar';
+import { Category } from '@/types';
+
+const mockCategories: Category[] = [
+    { id: '1', name: 'House', color: '#10b981' },
+    { id: '2', name: 'Villa', color: '#f59e0b' },
+];
+
+describe('BulkActionBar', () => {
+    const handlers = {
+        onSelectAll: jest.fn(),
+        onClear: jest.fn(),
+        onActivate: jest.fn(),
+        onDeactivate: jest.fn(),
+        onChangeType: jest.fn(),
+        onDelete: jest.fn(),
+        onExit: jest.fn(),
+    };
+
+    const renderBar = (props: Partial<Parameters<typeof BulkActionBar>[0]> = {}) =>
+        render(
+            <BulkActionBar
+                selectedCount={2}
+                allSelected={false}
+                categories={mockCategories}
+                {...handlers}
+                {...props}
+            />
+        );
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('shows the selected count', () => {
+        renderBar();
+
+        expect(screen.getByRole('toolbar', { name: 'Bulk actions' })).toBeInTheDocument();
+        expect(screen.getByText('2 selected')).toBeInTheDocument();
+    });
+
+    it('runs the bulk actions', () => {
+        renderBar();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Activate' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Deactivate' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+        expect(handlers.onActivate).toHaveBeenCalledTimes(1);
+        expect(handlers.onDeactivate).toHaveBeenCalledTimes(1);
+        expect(handlers.onDelete).toHaveBeenCalledTimes(1);
+    });
+
+    it('changes the type once one is chosen', () => {
+        renderBar();
+
+        const apply = screen.getByRole('button', { name: 'Apply' });
+        expect(apply).toBeDisabled();
+
+        fireEvent.change(screen.getByLabelText('New property type'), { target: { value: 'Villa' } });
+        fireEvent.click(apply);
+
+        expect(handlers.onChangeType).toHaveBeenCalledWith('Villa');
+    });
+
+    it('toggles between select all and deselect all', () => {
+        const { rerender } = renderBar();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Select all on page' }));
+        expect(handlers.onSelectAll).toHaveBeenCalledTimes(1);
+
+        rerender(<BulkActionBar selectedCount={3} allSelected categories={mockCategories} {...handlers} />);
+        fireEvent.click(screen.getByRole('button', { name: 'Deselect all' }));
+        expect(handlers.onClear).toHaveBeenCalledTimes(1);
+    });
+
+    it('disables actions when nothing is selected', () => {
+        renderBar({ selectedCount: 0 });
+
+        expect(screen.getByRole('button', { name: 'Activate' })).toBeDisabled();
+        expect(screen.getByRole('button', { name: 'Delete' })).toBeDisabled();
+        expect(screen.getByRole('button', { name: 'Select all on page' })).toBeEnabled();
+    });
+
+    it('shows progress and locks the bar while running', () => {
+        renderBar({ progress: { completed: 3, total: 10 } });
+
+        expect(screen.getByText('Working… 3 of 10')).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Deactivate' })).toBeDisabled();
+        expect(screen.getByRole('button', { name: 'Exit selection mode' })).toBeDisabled();
+    });
+
+    it('exits selection mode', () => {
+        renderBar();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Exit selection mode' }));
+
+        expect(handlers.onExit).toHaveBeenCalledTimes(1);
+    });
+});
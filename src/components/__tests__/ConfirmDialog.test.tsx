@@ -0,0 +1,119 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import ConfirmDialog from '../ConfirmDialog';
+
+describe('ConfirmDialog', () => {
+    const mockOnConfirm = jest.fn();
+    const mockOnCancel = jest.fn();
+
+    const renderDialog = (props: Partial<Parameters<typeof ConfirmDialog>[0]> = {}) =>
+        render(
+            <ConfirmDialog
+                title="Delete property?"
+                message='"Beach House" will be removed from the listings.'
+                onConfirm={mockOnConfirm}
+                onCancel={mockOnCancel}
+                {...props}
+            />
+        );
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('renders an accessible dialog with title and message', () => {
+        renderDialog();
+
+        const dialog = screen.getByRole('alertdialog', { name: 'Delete property?' });
+        expect(dialog).toHaveAttribute('aria-modal', 'true');
+        expect(dialog).toHaveAccessibleDescription('"Beach House" will be removed from the listings.');
+    });
+
+    it('uses default button labels', () => {
+        renderDialog();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Confirm' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+        expect(mockOnConfirm).toHaveBeenCalledTimes(1);
+        expect(mockOnCancel).toHaveBeenCalledTimes(1);
+    });
+
+    it('supports custom labels and a destructive style', () => {
+        renderDialog({ confirmLabel: 'Delete', cancelLabel: 'Keep', destructive: true });
+
+        expect(screen.getByRole('button', { name: 'Delete' })).toHaveClass('bg-red-600');
+        // Destructive dialogs start on the safe choice
+        expect(screen.getByRole('button', { name: 'Keep' })).toHaveFocus();
+    });
+
+    it('cancels with Escape and on backdrop click', () => {
+        const { container } = renderDialog();
+
+        fireEvent.keyDown(document, { key: 'Escape' });
+        fireEvent.click(container.firstChild as HTMLElement);
+
+        expect(mockOnCancel).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not cancel when clicking inside the dialog', () => {
+        renderDialog();
+
+        fireEvent.click(screen.getByRole('alertdialog'));
+
+        expect(mockOnCancel).not.toHaveBeenCalled();
+    });
+
+    describe('focus', () => {
+        it('starts on the confirm button for other dialogs', () => {
+            renderDialog();
+
+            expect(screen.getByRole('button', { name: 'Confirm' })).toHaveFocus();
+        });
+
+        it('keeps Tab inside the dialog', () => {
+            renderDialog();
+            const cancel = screen.getByRole('button', { name: 'Cancel' });
+            const confirm = screen.getByRole('button', { name: 'Confirm' });
+
+            fireEvent.keyDown(confirm, { key: 'Tab' });
+            expect(cancel).toHaveFocus();
+
+            fireEvent.keyDown(cancel, { key: 'Tab', shiftKey: true });
+            expect(confirm).toHaveFocus();
+        });
+
+        it('returns focus to the trigger when closed', () => {
+            const trigger = document.createElement('button');
+            document.body.appendChild(trigger);
+            trigger.focus();
+
+            const { unmount } = renderDialog();
+            expect(trigger).not.toHaveFocus();
+
+            unmount();
+            expect(trigger).toHaveFocus();
+            trigger.remove();
+        });
+    });
+
+    describe('type to confirm', () => {
+        it('requires the exact text before confirming', () => {
+            renderDialog({ confirmText: 'Beach House', confirmLabel: 'Delete' });
+
+            const input = screen.getByLabelText(/type beach house to confirm/i);
+            const deleteButton = screen.getByRole('button', { name: 'Delete' });
+            expect(input).toHaveFocus();
+            expect(deleteButton).toBeDisabled();
+
+            fireEvent.change(input, { target: { value: 'Beach' } });
+            fireEvent.submit(input);
+            expect(mockOnConfirm).not.toHaveBeenCalled();
+
+            fireEvent.change(input, { target: { value: 'Beach House' } });
+            expect(deleteButton).toBeEnabled();
+
+            fireEvent.click(deleteButton);
+            expect(mockOnConfirm).toHaveBeenCalledTimes(1);
+        });
+    });
+});
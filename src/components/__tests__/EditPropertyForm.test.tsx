@@ -0,0 +1,115 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import EditPropertyForm from '../EditPropertyForm';
+import { Property, Category } from '@/types';
+
+describe('EditPropertyForm', () => {
+  const mockOnSave = jest.fn();
+  const mockOnCancel = jest.fn();
+  const mockCategories: Category[] = [
+    { id: '1', name: 'House', color: '#3B82F6' },
+    { id: '2', name: 'Apartment', color: '#10B981' },
+  ];
+  const mockProperty: Property = {
+    id: 'prop-1',
+    name: 'Beach House',
+    description: 'House by the beach',
+    addressProperty: '1 Ocean Dr',
+    type: 'House',
+    priceProperty: 500000,
+    imageUrl: 'https://example.com/house.jpg',
+    active: true,
+    createdAt: '2024-01-01T00:00:00Z',
+    idOwner: 'owner-1',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  const renderForm = () =>
+    render(
+      <EditPropertyForm
+        property={mockProperty}
+        categories={mockCategories}
+        onSave={mockOnSave}
+        onCancel={mockOnCancel}
+      />
+    );
+
+  it('pre-fills the form with the property', () => {
+    renderForm();
+
+    expect(screen.getByLabelText(/property name/i)).toHaveValue('Beach House');
+    expect(screen.getByLabelText(/description/i)).toHaveValue('House by the beach');
+    expect(screen.getByLabelText(/address/i)).toHaveValue('1 Ocean Dr');
+    expect(screen.getByLabelText(/price/i)).toHaveValue(500000);
+    expect(screen.getByLabelText(/property type/i)).toHaveValue('House');
+    expect(screen.getByLabelText(/active listing/i)).toBeChecked();
+    expect(screen.getByAltText(/preview/i)).toHaveAttribute('src', mockProperty.imageUrl);
+  });
+
+  it('sends only the changed fields', async () => {
+    const user = userEvent.setup();
+    renderForm();
+
+    const priceInput = screen.getByLabelText(/price/i);
+    await user.clear(priceInput);
+    await user.type(priceInput, '550000');
+    await user.selectOptions(screen.getByLabelText(/property type/i), 'Apartment');
+
+    await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith('prop-1', {
+        priceProperty: 550000,
+        type: 'Apartment',
+      });
+    });
+  });
+
+  it('clears the image when it is removed', async () => {
+    const user = userEvent.setup();
+    renderForm();
+
+    await user.click(screen.getByLabelText(/remove image/i));
+    await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith('prop-1', { imageUrl: '' });
+    });
+  });
+
+  it('closes without saving when nothing changed', async () => {
+    const user = userEvent.setup();
+    renderForm();
+
+    await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+    await waitFor(() => {
+      expect(mockOnCancel).toHaveBeenCalled();
+    });
+    expect(mockOnSave).not.toHaveBeenCalled();
+  });
+
+  it('applies the same validation as the add form', async () => {
+    const user = userEvent.setup();
+    renderForm();
+
+    await user.clear(screen.getByLabelText(/property name/i));
+    await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+    expect(screen.getByText('Name is required')).toBeInTheDocument();
+    expect(mockOnSave).not.toHaveBeenCalled();
+  });
+
+  it('calls onCancel when Cancel is clicked', async () => {
+    const user = userEvent.setup();
+    renderForm();
+
+    await user.click(screen.getByRole('button', { name: /cancel/i }));
+
+    expect(mockOnCancel).toHaveBeenCalled();
+  });
+});
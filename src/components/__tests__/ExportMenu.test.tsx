@@ -0,0 +1,198 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import ExportMenu from '../ExportMenu';
+import { Property } from '@/types';
+
+const mockProperties: Property[] = [
+    {
+        id: '1',
+        name: 'Beach House',
+        description: 'Ocean views',
+        addressProperty: '1 Ocean Dr, Miami',
+        type: 'House',
+        priceProperty: 500000,
+        active: true,
+        createdAt: '2024-01-01T00:00:00Z',
+    },
+    {
+        id: '2',
+        name: 'Hill Villa',
+        description: 'Quiet',
+        addressProperty: '2 Hill Rd',
+        type: 'Villa',
+        priceProperty: 900000,
+        active: false,
+        createdAt: '2024-01-02T00:00:00Z',
+    },
+];
+
+// jsdom's Blob has no text()
+const readBlob = (blob: Blob) =>
+    new Promise<string>((resolve) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.readAsText(blob);
+    });
+
+describe('ExportMenu', () => {
+    const originalCreateObjectURL = URL.createObjectURL;
+    const originalRevokeObjectURL = URL.revokeObjectURL;
+    let exportedBlobs: Blob[];
+    let clickSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        exportedBlobs = [];
+        URL.createObjectURL = jest.fn((blob: Blob) => {
+            exportedBlobs.push(blob);
+            return 'blob:export';
+        });
+        URL.revokeObjectURL = jest.fn();
+        clickSpy = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        URL.createObjectURL = originalCreateObjectURL;
+        URL.revokeObjectURL = originalRevokeObjectURL;
+        clickSpy.mockRestore();
+    });
+
+    const openMenu = () => fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+
+    it('is disabled without properties', () => {
+        render(<ExportMenu properties={[]} />);
+
+        expect(screen.getByRole('button', { name: 'Export' })).toBeDisabled();
+    });
+
+    it('downloads a CSV of all listed properties', async () => {
+        render(<ExportMenu properties={mockProperties} />);
+        openMenu();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Download 2 rows' }));
+
+        expect(clickSpy).toHaveBeenCalledTimes(1);
+        const anchor = clickSpy.mock.instances[0] as unknown as HTMLAnchorElement;
+        expect(anchor.download).toMatch(/^properties-\d{4}-\d{2}-\d{2}\.csv$/);
+        const csv = await readBlob(exportedBlobs[0]);
+        expect(csv).toContain('"1 Ocean Dr, Miami"');
+        expect(csv).toContain('Hill Villa');
+        expect(screen.queryByRole('form', { name: 'Export properties' })).not.toBeInTheDocument();
+    });
+
+    it('exports only the chosen columns as JSON', async () => {
+        render(<ExportMenu properties={mockProperties} />);
+        openMenu();
+
+        fireEvent.click(screen.getByLabelText('JSON'));
+        ['Address', 'Type', 'Price', 'Active', 'Description'].forEach((label) =>
+            fireEvent.click(screen.getByLabelText(label))
+        );
+        fireEvent.click(screen.getByRole('button', { name: 'Download 2 rows' }));
+
+        expect(JSON.parse(await readBlob(exportedBlobs[0]))).toEqual([
+            { name: 'Beach House' },
+            { name: 'Hill Villa' },
+        ]);
+    });
+
+    it('exports only selected rows when a selection exists', async () => {
+        render(<ExportMenu properties={mockProperties} selectedIds={['2']} />);
+        openMenu();
+
+        const selectedOnly = screen.getByLabelText('Only selected (1)');
+        expect(selectedOnly).toBeChecked();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Download 1 row' }));
+        const csv = await readBlob(exportedBlobs[0]);
+        expect(csv).toContain('Hill Villa');
+        expect(csv).not.toContain('Beach House');
+    });
+
+    it('can export every row despite a selection', () => {
+        render(<ExportMenu properties={mockProperties} selectedIds={['2']} />);
+        openMenu();
+
+        fireEvent.click(screen.getByLabelText('Only selected (1)'));
+
+        expect(screen.getByRole('button', { name: 'Download 2 rows' })).toBeEnabled();
+    });
+
+    it('requires at least one column', () => {
+        render(<ExportMenu properties={mockProperties} />);
+        openMenu();
+
+        ['Name', 'Address', 'Type', 'Price', 'Active', 'Description'].forEach((label) =>
+            fireEvent.click(screen.getByLabelText(label))
+        );
+
+        expect(screen.getByRole('button', { name: 'Download 2 rows' })).toBeDisabled();
+    });
+
+    it('labels an export without loadAll as this page only', () => {
+        render(<ExportMenu properties={mockProperties} />);
+        openMenu();
+
+        expect(screen.getByText('Properties on this page only')).toBeInTheDocument();
+    });
+
+    describe('with loadAll', () => {
+        const allProperties: Property[] = [
+            ...mockProperties,
+            { ...mockProperties[0], id: '3', name: 'Lake Cabin' },
+        ];
+
+        it('exports every matching property, not just the listed page', async () => {
+            const loadAll = jest.fn().mockResolvedValue(allProperties);
+            render(<ExportMenu properties={mockProperties} totalRecords={3} loadAll={loadAll} />);
+            openMenu();
+
+            expect(screen.getByText('All properties matching the current filters')).toBeInTheDocument();
+            fireEvent.click(screen.getByRole('button', { name: 'Download 3 rows' }));
+
+            expect(loadAll).toHaveBeenCalledWith(expect.any(AbortSignal));
+            expect(screen.getByRole('button', { name: 'Preparing export...' })).toBeDisabled();
+            await waitFor(() => expect(exportedBlobs).toHaveLength(1));
+            expect(await readBlob(exportedBlobs[0])).toContain('Lake Cabin');
+            expect(screen.queryByRole('form', { name: 'Export properties' })).not.toBeInTheDocument();
+        });
+
+        it('exports selected rows without fetching', async () => {
+            const loadAll = jest.fn();
+            render(
+                <ExportMenu properties={mockProperties} selectedIds={['2']} totalRecords={3} loadAll={loadAll} />
+            );
+            openMenu();
+
+            fireEvent.click(screen.getByRole('button', { name: 'Download 1 row' }));
+
+            expect(loadAll).not.toHaveBeenCalled();
+            expect(await readBlob(exportedBlobs[0])).toContain('Hill Villa');
+        });
+
+        it('shows why the fetch failed and keeps the menu open', async () => {
+            const loadAll = jest.fn().mockRejectedValue({ message: 'Server exploded', statusCode: 500 });
+            render(<ExportMenu properties={mockProperties} totalRecords={3} loadAll={loadAll} />);
+            openMenu();
+
+            fireEvent.click(screen.getByRole('button', { name: 'Download 3 rows' }));
+
+            expect(await screen.findByRole('alert')).toHaveTextContent(/server error/i);
+            expect(exportedBlobs).toHaveLength(0);
+            expect(screen.getByRole('button', { name: 'Download 3 rows' })).toBeEnabled();
+        });
+
+        it('cancels the fetch when the menu closes', async () => {
+            let signal: AbortSignal | undefined;
+            const loadAll = jest.fn((s: AbortSignal) => {
+                signal = s;
+                return new Promise<Property[]>(() => {});
+            });
+            render(<ExportMenu properties={mockProperties} totalRecords={3} loadAll={loadAll} />);
+            openMenu();
+
+            fireEvent.click(screen.getByRole('button', { name: 'Download 3 rows' }));
+            fireEvent.keyDown(document, { key: 'Escape' });
+
+            expect(signal?.aborted).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import Modal from '../Modal';
+
+function ModalHarness({ onClose }: { onClose?: () => void }) {
+    const [isOpen, setIsOpen] = useState(false);
+
+    const close = () => {
+        onClose?.();
+        setIsOpen(false);
+    };
+
+    return (
+        <>
+            <button onClick={() => setIsOpen(true)}>Quick view</button>
+            {isOpen && (
+                <Modal title="Property Details" onClose={close} headerActions={<a href="#details">Open page</a>}>
+                    <p>Beach House</p>
+                    <button>Edit</button>
+                </Modal>
+            )}
+        </>
+    );
+}
+
+describe('Modal', () => {
+    it('renders a labelled dialog in a portal', () => {
+        const { container } = render(
+            <Modal title="Property Details" onClose={jest.fn()}>
+                <p>Beach House</p>
+            </Modal>
+        );
+
+        const dialog = screen.getByRole('dialog', { name: 'Property Details' });
+        expect(dialog).toHaveAttribute('aria-modal', 'true');
+        expect(dialog).toHaveTextContent('Beach House');
+        expect(container).not.toContainElement(dialog);
+    });
+
+    it('moves focus into the dialog and restores it to the trigger on close', async () => {
+        const user = userEvent.setup();
+        render(<ModalHarness />);
+        const trigger = screen.getByRole('button', { name: 'Quick view' });
+
+        await user.click(trigger);
+        expect(screen.getByRole('dialog')).toHaveFocus();
+
+        await user.click(screen.getByRole('button', { name: 'Close' }));
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+        expect(trigger).toHaveFocus();
+    });
+
+    it('traps focus within the dialog', async () => {
+        const user = userEvent.setup();
+        render(<ModalHarness />);
+        await user.click(screen.getByRole('button', { name: 'Quick view' }));
+
+        await user.tab();
+        expect(screen.getByRole('link', { name: 'Open page' })).toHaveFocus();
+        await user.tab();
+        expect(screen.getByRole('button', { name: 'Close' })).toHaveFocus();
+        await user.tab();
+        expect(screen.getByRole('button', { name: 'Edit' })).toHaveFocus();
+
+        // Wraps around both ways
+        await user.tab();
+        expect(screen.getByRole('link', { name: 'Open page' })).toHaveFocus();
+        await user.tab({ shift: true });
+        expect(screen.getByRole('button', { name: 'Edit' })).toHaveFocus();
+    });
+
+    it('closes on Escape', async () => {
+        const user = userEvent.setup();
+        const onClose = jest.fn();
+        render(<ModalHarness onClose={onClose} />);
+        await user.click(screen.getByRole('button', { name: 'Quick view' }));
+
+        await user.keyboard('{Escape}');
+
+        expect(onClose).toHaveBeenCalledTimes(1);
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+
+    it('closes on backdrop click but not on clicks inside', () => {
+        const onClose = jest.fn();
+        render(
+            <Modal title="Property Details" onClose={onClose}>
+                <p>Beach House</p>
+            </Modal>
+        );
+        const dialog = screen.getByRole('dialog');
+
+        fireEvent.click(screen.getByText('Beach House'));
+        expect(onClose).not.toHaveBeenCalled();
+
+        fireEvent.click(dialog.parentElement as HTMLElement);
+        expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('locks background scroll while open', () => {
+        document.body.style.overflow = 'auto';
+        const { unmount } = render(
+            <Modal title="Property Details" onClose={jest.fn()}>
+                <p>Beach House</p>
+            </Modal>
+        );
+
+        expect(document.body.style.overflow).toBe('hidden');
+
+        unmount();
+        expect(document.body.style.overflow).toBe('auto');
+    });
+});
@@ -0,0 +1,108 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import NotificationCenter from '../NotificationCenter';
+import { NotificationRecord } from '@/lib/storage/notificationHistoryStorage';
+
+describe('NotificationCenter', () => {
+    const mockOnMarkRead = jest.fn();
+    const mockOnMarkAllRead = jest.fn();
+    const mockOnClear = jest.fn();
+
+    const notifications: NotificationRecord[] = [
+        {
+            id: 'n2',
+            type: 'error',
+            title: 'Error',
+            message: 'Failed to update property',
+            createdAt: '2024-01-01T10:05:00Z',
+            read: false,
+        },
+        {
+            id: 'n1',
+            type: 'success',
+            title: 'Saved!',
+            message: 'Property created successfully',
+            createdAt: '2024-01-01T10:00:00Z',
+            read: true,
+        },
+    ];
+
+    const renderCenter = (props: Partial<Parameters<typeof NotificationCenter>[0]> = {}) =>
+        render(
+            <NotificationCenter
+                notifications={notifications}
+                unreadCount={1}
+                onMarkRead={mockOnMarkRead}
+                onMarkAllRead={mockOnMarkAllRead}
+                onClear={mockOnClear}
+                {...props}
+            />
+        );
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('shows the unread count on the bell', () => {
+        renderCenter();
+
+        const bell = screen.getByRole('button', { name: 'Notifications, 1 unread' });
+        expect(bell).toHaveTextContent('1');
+        expect(bell).toHaveAttribute('aria-expanded', 'false');
+        expect(screen.queryByRole('region', { name: 'Notification history' })).not.toBeInTheDocument();
+    });
+
+    it('opens the panel listing notifications', () => {
+        renderCenter();
+
+        fireEvent.click(screen.getByRole('button', { name: /notifications/i }));
+
+        expect(screen.getByRole('region', { name: 'Notification history' })).toBeInTheDocument();
+        expect(screen.getByText('Failed to update property')).toBeInTheDocument();
+        expect(screen.getByText('Property created successfully')).toBeInTheDocument();
+        expect(screen.getAllByText('Unread')).toHaveLength(1);
+        expect(screen.getAllByRole('listitem')[0].querySelector('time')).toHaveAttribute(
+            'dateTime',
+            '2024-01-01T10:05:00Z'
+        );
+    });
+
+    it('marks a notification as read when clicked', () => {
+        renderCenter();
+        fireEvent.click(screen.getByRole('button', { name: /notifications/i }));
+
+        fireEvent.click(screen.getByText('Failed to update property'));
+
+        expect(mockOnMarkRead).toHaveBeenCalledWith('n2');
+    });
+
+    it('marks all as read and clears all', () => {
+        renderCenter();
+        fireEvent.click(screen.getByRole('button', { name: /notifications/i }));
+
+        fireEvent.click(screen.getByRole('button', { name: 'Mark all as read' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Clear all notifications' }));
+
+        expect(mockOnMarkAllRead).toHaveBeenCalledTimes(1);
+        expect(mockOnClear).toHaveBeenCalledTimes(1);
+    });
+
+    it('shows an empty state', () => {
+        renderCenter({ notifications: [], unreadCount: 0 });
+
+        fireEvent.click(screen.getByRole('button', { name: 'Notifications' }));
+
+        expect(screen.getByText('No notifications yet')).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Clear all notifications' })).toBeDisabled();
+    });
+
+    it('closes with Escape', () => {
+        renderCenter();
+        const bell = screen.getByRole('button', { name: /notifications/i });
+        fireEvent.click(bell);
+
+        fireEvent.keyDown(document, { key: 'Escape' });
+
+        expect(screen.queryByRole('region', { name: 'Notification history' })).not.toBeInTheDocument();
+        expect(bell).toHaveFocus();
+    });
+});
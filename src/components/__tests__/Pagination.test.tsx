@@ -0,0 +1,115 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import Pagination from '../Pagination';
+
+describe('Pagination', () => {
+    const mockOnPageChange = jest.fn();
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('shows the visible range and total', () => {
+        render(
+            <Pagination
+                pageNumber={2}
+                pageSize={12}
+                totalPages={3}
+                totalRecords={30}
+                onPageChange={mockOnPageChange}
+            />
+        );
+
+        expect(screen.getByText(/showing/i)).toHaveTextContent('Showing 13–24 of 30');
+    });
+
+    it('clamps the range on the last page', () => {
+        render(
+            <Pagination
+                pageNumber={3}
+                pageSize={12}
+                totalPages={3}
+                totalRecords={30}
+                onPageChange={mockOnPageChange}
+            />
+        );
+
+        expect(screen.getByText(/showing/i)).toHaveTextContent('Showing 25–30 of 30');
+    });
+
+    it('calls onPageChange with the next and previous page', () => {
+        render(
+            <Pagination
+                pageNumber={2}
+                pageSize={12}
+                totalPages={3}
+                totalRecords={30}
+                onPageChange={mockOnPageChange}
+            />
+        );
+
+        fireEvent.click(screen.getByLabelText(/next page/i));
+        expect(mockOnPageChange).toHaveBeenCalledWith(3);
+
+        fireEvent.click(screen.getByLabelText(/previous page/i));
+        expect(mockOnPageChange).toHaveBeenCalledWith(1);
+    });
+
+    it('disables previous on the first page', () => {
+        render(
+            <Pagination
+                pageNumber={1}
+                pageSize={12}
+                totalPages={3}
+                totalRecords={30}
+                onPageChange={mockOnPageChange}
+            />
+        );
+
+        expect(screen.getByLabelText(/previous page/i)).toBeDisabled();
+        expect(screen.getByRole('button', { name: '1' })).toHaveAttribute('aria-current', 'page');
+    });
+
+    it('collapses distant pages into ellipses', () => {
+        render(
+            <Pagination
+                pageNumber={10}
+                pageSize={12}
+                totalPages={20}
+                totalRecords={240}
+                onPageChange={mockOnPageChange}
+            />
+        );
+
+        expect(screen.getAllByText('…')).toHaveLength(2);
+        expect(screen.getByText('20')).toBeInTheDocument();
+        expect(screen.queryByText('5')).not.toBeInTheDocument();
+    });
+
+    it('hides page controls when there is a single page', () => {
+        render(
+            <Pagination
+                pageNumber={1}
+                pageSize={12}
+                totalPages={1}
+                totalRecords={4}
+                onPageChange={mockOnPageChange}
+            />
+        );
+
+        expect(screen.queryByLabelText(/next page/i)).not.toBeInTheDocument();
+    });
+
+    it('renders nothing without results', () => {
+        const { container } = render(
+            <Pagination
+                pageNumber={1}
+                pageSize={12}
+                totalPages={1}
+                totalRecords={0}
+                onPageChange={mockOnPageChange}
+            />
+        );
+
+        expect(container).toBeEmptyDOMElement();
+    });
+});
@@ -68,7 +68,7 @@ describe('PropertyCard', () => {
         expect(screen.getByText('Inactive')).toBeInTheDocument()
     })
 
-    it('calls onView when View button is clicked', () => {
+    it('links View to the property detail page', () => {
         render(
             <PropertyCard
                 property={mockProperty}
@@ -77,8 +77,28 @@ describe('PropertyCard', () => {
             />
         )
 
-        const viewButton = screen.getByText('View')
-        fireEvent.click(viewButton)
+        const viewLink = screen.getByRole('link', { name: /view/i })
+
+        expect(viewLink).toHaveAttribute('href', `/properties/${mockProperty.id}`)
+    })
+
+    it('disables View for a property that is still being saved', () => {
+        render(<PropertyCard property={{ ...mockProperty, id: 'temp-1-1' }} onView={mockOnView} />)
+
+        expect(screen.queryByRole('link', { name: /view/i })).not.toBeInTheDocument()
+        expect(screen.getByRole('button', { name: 'View' })).toBeDisabled()
+    })
+
+    it('calls onView when Quick view button is clicked', () => {
+        render(
+            <PropertyCard
+                property={mockProperty}
+                onView={mockOnView}
+                onDelete={mockOnDelete}
+            />
+        )
+
+        fireEvent.click(screen.getByLabelText('Quick view'))
 
         expect(mockOnView).toHaveBeenCalledTimes(1)
         expect(mockOnView).toHaveBeenCalledWith(mockProperty.id)
@@ -101,6 +121,56 @@ describe('PropertyCard', () => {
         expect(mockOnDelete).toHaveBeenCalledWith(mockProperty.id)
     })
 
+    it('calls onEdit when Edit button is clicked', () => {
+        const mockOnEdit = jest.fn()
+        render(
+            <PropertyCard
+                property={mockProperty}
+                onView={mockOnView}
+                onEdit={mockOnEdit}
+                onDelete={mockOnDelete}
+            />
+        )
+
+        fireEvent.click(screen.getByLabelText('Edit property'))
+
+        expect(mockOnEdit).toHaveBeenCalledWith(mockProperty.id)
+        expect(mockOnDelete).not.toHaveBeenCalled()
+    })
+
+    it('does not render Edit button without onEdit', () => {
+        render(<PropertyCard property={mockProperty} onView={mockOnView} />)
+
+        expect(screen.queryByLabelText('Edit property')).not.toBeInTheDocument()
+    })
+
+    it('does not render a selection checkbox without onSelect', () => {
+        render(<PropertyCard property={mockProperty} onView={mockOnView} />)
+
+        expect(screen.queryByRole('checkbox')).not.toBeInTheDocument()
+    })
+
+    it('calls onSelect with the range flag when the checkbox is clicked', () => {
+        const mockOnSelect = jest.fn()
+
+        render(<PropertyCard property={mockProperty} onSelect={mockOnSelect} />)
+
+        const checkbox = screen.getByRole('checkbox', { name: 'Select Beautiful House' })
+        expect(checkbox).not.toBeChecked()
+
+        fireEvent.click(checkbox)
+        fireEvent.click(checkbox, { shiftKey: true })
+
+        expect(mockOnSelect).toHaveBeenNthCalledWith(1, mockProperty.id, false)
+        expect(mockOnSelect).toHaveBeenNthCalledWith(2, mockProperty.id, true)
+    })
+
+    it('reflects the selected state', () => {
+        render(<PropertyCard property={mockProperty} onSelect={jest.fn()} selected />)
+
+        expect(screen.getByRole('checkbox', { name: 'Select Beautiful House' })).toBeChecked()
+    })
+
     it('renders image with correct src and alt text', () => {
         render(
             <PropertyCard
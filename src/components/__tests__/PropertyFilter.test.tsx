@@ -176,6 +176,8 @@ describe('PropertyFilter', () => {
             priceMax: 500000,
             type: 'House',
             active: true,
+            sortBy: 'price',
+            sortDir: 'desc',
         };
 
         render(
@@ -196,9 +198,23 @@ describe('PropertyFilter', () => {
             priceMax: null,
             type: null,
             active: null,
+            sortBy: 'price',
+            sortDir: 'desc',
         });
     });
 
+    it('does not offer Clear All for a sort alone', () => {
+        render(
+            <PropertyFilter
+                filter={{ ...mockFilter, sortBy: 'price', sortDir: 'asc' }}
+                onChange={mockOnChange}
+                categories={mockCategories}
+            />
+        );
+
+        expect(screen.queryByText(/clear all/i)).not.toBeInTheDocument();
+    });
+
     it('renders category filter options', () => {
         render(
             <PropertyFilter
@@ -237,4 +253,87 @@ describe('PropertyFilter', () => {
             });
         });
     });
+
+    it('sets sortBy and sortDir from the sort dropdown', () => {
+        render(
+            <PropertyFilter
+                filter={mockFilter}
+                onChange={mockOnChange}
+                categories={mockCategories}
+            />
+        );
+
+        fireEvent.change(screen.getByLabelText(/sort by/i), { target: { value: 'price:desc' } });
+
+        expect(mockOnChange).toHaveBeenCalledWith({
+            ...mockFilter,
+            sortBy: 'price',
+            sortDir: 'desc',
+        });
+    });
+
+    it('shows the current sort and resets it to default', () => {
+        render(
+            <PropertyFilter
+                filter={{ ...mockFilter, sortBy: 'createdAt', sortDir: 'desc' }}
+                onChange={mockOnChange}
+                categories={mockCategories}
+            />
+        );
+
+        const select = screen.getByLabelText(/sort by/i);
+        expect(select).toHaveValue('createdAt:desc');
+
+        fireEvent.change(select, { target: { value: '' } });
+
+        expect(mockOnChange).toHaveBeenCalledWith({
+            ...mockFilter,
+            sortBy: null,
+            sortDir: null,
+        });
+    });
+
+    it('toggles property types independently and shows the selected count', () => {
+        const { rerender } = render(
+            <PropertyFilter
+                filter={{ ...mockFilter, type: ['House'] }}
+                onChange={mockOnChange}
+                categories={mockCategories}
+            />
+        );
+
+        expect(screen.getByText('1 selected')).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'House' })).toHaveAttribute('aria-pressed', 'true');
+
+        fireEvent.click(screen.getByRole('button', { name: 'Land' }));
+        expect(mockOnChange).toHaveBeenLastCalledWith({ ...mockFilter, type: ['House', 'Land'] });
+
+        rerender(
+            <PropertyFilter
+                filter={{ ...mockFilter, type: ['House', 'Land'] }}
+                onChange={mockOnChange}
+                categories={mockCategories}
+            />
+        );
+        expect(screen.getByText('2 selected')).toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole('button', { name: 'House' }));
+        expect(mockOnChange).toHaveBeenLastCalledWith({ ...mockFilter, type: ['Land'] });
+    });
+
+    it('resets to all types when the last selected type is toggled off', () => {
+        render(
+            <PropertyFilter
+                filter={{ ...mockFilter, type: 'House' }}
+                onChange={mockOnChange}
+                categories={mockCategories}
+            />
+        );
+
+        // Legacy single-type filters still render as selected
+        expect(screen.getByRole('button', { name: 'House' })).toHaveAttribute('aria-pressed', 'true');
+
+        fireEvent.click(screen.getByRole('button', { name: 'House' }));
+        expect(mockOnChange).toHaveBeenCalledWith({ ...mockFilter, type: null });
+    });
 });
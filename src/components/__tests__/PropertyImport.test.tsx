@@ -0,0 +1,174 @@
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import PropertyImport from '../PropertyImport';
+import { propertyApi } from '@/lib/api/propertyService';
+import { Category } from '@/types';
+
+jest.mock('@/lib/api/propertyService');
+
+const mockCategories: Category[] = [
+    { id: '1', name: 'House', color: '#10b981' },
+    { id: '2', name: 'Villa', color: '#f59e0b' },
+];
+
+const csv = [
+    'Name,Description,Address,Type,Price',
+    'Beach House,Ocean views,1 Ocean Dr,House,500000',
+    ',No name,2 Hill Rd,Villa,900000',
+    'Castle,Old,3 Moat Ln,Castle,100',
+].join('\n');
+
+// jsdom's Blob has no text()
+const readBlob = (blob: Blob) =>
+    new Promise<string>((resolve) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.readAsText(blob);
+    });
+
+const uploadCsv = async (user: ReturnType<typeof userEvent.setup>, content = csv) => {
+    await user.upload(
+        screen.getByLabelText('Choose CSV or JSON file'),
+        new File([content], 'listings.csv', { type: 'text/csv' })
+    );
+    await screen.findByText('2. Map columns');
+};
+
+describe('PropertyImport', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('guesses the mapping and previews per-row errors', async () => {
+        const user = userEvent.setup();
+        render(<PropertyImport categories={mockCategories} />);
+
+        await uploadCsv(user);
+
+        expect(screen.getByLabelText(/^Address/)).toHaveValue('Address');
+        expect(screen.getByLabelText(/^Image URL/)).toHaveValue('');
+        expect(screen.getByText('1 ready to import')).toBeInTheDocument();
+        expect(screen.getByText('2 with errors')).toBeInTheDocument();
+        expect(screen.getByText('Name is required')).toBeInTheDocument();
+        expect(screen.getByText('Unknown property type "Castle"')).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Import 1 property' })).toBeEnabled();
+    });
+
+    it('revalidates when a column is unmapped', async () => {
+        const user = userEvent.setup();
+        render(<PropertyImport categories={mockCategories} />);
+        await uploadCsv(user);
+
+        await user.selectOptions(screen.getByLabelText(/^Price/), '');
+
+        expect(screen.getByText('0 ready to import')).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Import 0 properties' })).toBeDisabled();
+    });
+
+    it('waits for the categories before importing', async () => {
+        const user = userEvent.setup();
+        const { rerender } = render(<PropertyImport categories={null} />);
+        await uploadCsv(user);
+
+        // Types are only checked for presence until the list arrives
+        expect(screen.getByText('2 ready to import')).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Import 2 properties' })).toBeDisabled();
+        expect(screen.getByText('Loading property types...')).toBeInTheDocument();
+
+        rerender(<PropertyImport categories={mockCategories} />);
+
+        expect(screen.getByRole('button', { name: 'Import 1 property' })).toBeEnabled();
+        expect(screen.queryByText('Loading property types...')).not.toBeInTheDocument();
+    });
+
+    it('rejects every typed row when no categories exist', async () => {
+        const user = userEvent.setup();
+        render(<PropertyImport categories={[]} />);
+        await uploadCsv(user);
+
+        expect(screen.getByText('0 ready to import')).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Import 0 properties' })).toBeDisabled();
+    });
+
+    it('shows a parse error for unsupported files', async () => {
+        const user = userEvent.setup({ applyAccept: false });
+        render(<PropertyImport categories={mockCategories} />);
+
+        await user.upload(
+            screen.getByLabelText('Choose CSV or JSON file'),
+            new File(['x'], 'listings.xlsx')
+        );
+
+        expect(await screen.findByRole('alert')).toHaveTextContent('Only .csv and .json files can be imported');
+        expect(screen.queryByText('2. Map columns')).not.toBeInTheDocument();
+    });
+
+    it('creates valid rows and downloads a report of the rest', async () => {
+        const originalCreateObjectURL = URL.createObjectURL;
+        const originalRevokeObjectURL = URL.revokeObjectURL;
+        const blobs: Blob[] = [];
+        URL.createObjectURL = jest.fn((blob: Blob) => {
+            blobs.push(blob);
+            return 'blob:report';
+        });
+        URL.revokeObjectURL = jest.fn();
+        const clickSpy = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+        (propertyApi.createProperty as jest.Mock).mockResolvedValue({ id: '10' });
+
+        const user = userEvent.setup();
+        render(<PropertyImport categories={mockCategories} />);
+        await uploadCsv(user);
+
+        await user.click(screen.getByRole('button', { name: 'Import 1 property' }));
+
+        expect(await screen.findByRole('status')).toHaveTextContent('Created 1 property. 2 not imported.');
+        expect(propertyApi.createProperty).toHaveBeenCalledWith({
+            name: 'Beach House',
+            description: 'Ocean views',
+            addressProperty: '1 Ocean Dr',
+            type: 'House',
+            priceProperty: 500000,
+        });
+
+        await user.click(screen.getByRole('button', { name: 'Download failure report' }));
+
+        const anchor = clickSpy.mock.instances[0] as unknown as HTMLAnchorElement;
+        expect(anchor.download).toBe('listings-failures.csv');
+        const report = (await readBlob(blobs[0])).replace(/^\uFEFF/, '').split('\r\n');
+        expect(report[0]).toBe('Name,Description,Address,Type,Price,Import Error');
+        expect(report.slice(1)).toEqual([
+            ',No name,2 Hill Rd,Villa,900000,Name is required',
+            'Castle,Old,3 Moat Ln,Castle,100,"Unknown property type ""Castle"""',
+        ]);
+
+        clickSpy.mockRestore();
+        URL.createObjectURL = originalCreateObjectURL;
+        URL.revokeObjectURL = originalRevokeObjectURL;
+    });
+
+    it('can cancel an import in progress', async () => {
+        let resolveCreate!: (value: unknown) => void;
+        (propertyApi.createProperty as jest.Mock).mockReturnValue(
+            new Promise((resolve) => {
+                resolveCreate = resolve;
+            })
+        );
+
+        const user = userEvent.setup();
+        render(<PropertyImport categories={mockCategories} />);
+        await uploadCsv(user);
+        await user.click(screen.getByRole('button', { name: 'Import 1 property' }));
+
+        const progressbar = screen.getByRole('progressbar', { name: 'Import progress' });
+        expect(progressbar).toHaveAttribute('aria-valuemax', '1');
+        expect(within(progressbar.parentElement!).getByText('Imported 0 of 1')).toBeInTheDocument();
+
+        await user.click(screen.getByRole('button', { name: 'Cancel' }));
+        resolveCreate({ id: '10' });
+
+        await waitFor(() => {
+            expect(screen.getByRole('status')).toHaveTextContent('The import was cancelled.');
+        });
+        expect(screen.getByRole('button', { name: 'Import another file' })).toBeInTheDocument();
+    });
+});
@@ -0,0 +1,118 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import SavedSearches from '../SavedSearches';
+import { PropertyFilter, SavedSearch } from '@/types';
+
+describe('SavedSearches', () => {
+    const emptyFilter: PropertyFilter = {
+        name: '',
+        address: '',
+        priceMin: null,
+        priceMax: null,
+        type: null,
+        active: null,
+    };
+
+    const mockSearches: SavedSearch[] = [
+        {
+            id: 's1',
+            name: 'Miami villas',
+            filter: { ...emptyFilter, address: 'Miami', type: 'Villa', active: true },
+            createdAt: '2024-01-01T00:00:00.000Z',
+        },
+        {
+            id: 's2',
+            name: 'Cheap houses',
+            filter: { ...emptyFilter, type: 'House', priceMax: 300000 },
+            createdAt: '2024-01-02T00:00:00.000Z',
+        },
+    ];
+
+    const handlers = {
+        onApply: jest.fn(),
+        onSave: jest.fn(),
+        onRename: jest.fn(),
+        onDelete: jest.fn(),
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('shows an empty state', () => {
+        render(<SavedSearches searches={[]} currentFilter={emptyFilter} {...handlers} />);
+
+        expect(screen.getByText(/no saved searches yet/i)).toBeInTheDocument();
+    });
+
+    it('saves the current search under a name', async () => {
+        render(<SavedSearches searches={[]} currentFilter={emptyFilter} {...handlers} />);
+
+        const saveButton = screen.getByRole('button', { name: /save current search/i });
+        expect(saveButton).toBeDisabled();
+
+        fireEvent.change(screen.getByPlaceholderText(/name this search/i), {
+            target: { value: 'Downtown lofts' },
+        });
+        fireEvent.click(saveButton);
+
+        await waitFor(() => {
+            expect(screen.getByPlaceholderText(/name this search/i)).toHaveValue('');
+        });
+        expect(handlers.onSave).toHaveBeenCalledWith('Downtown lofts');
+    });
+
+    it('applies a saved search on click', () => {
+        render(<SavedSearches searches={mockSearches} currentFilter={emptyFilter} {...handlers} />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Miami villas' }));
+
+        expect(handlers.onApply).toHaveBeenCalledWith(mockSearches[0].filter);
+    });
+
+    it('highlights the search matching the current filter', () => {
+        render(
+            <SavedSearches
+                searches={mockSearches}
+                currentFilter={mockSearches[1].filter}
+                {...handlers}
+            />
+        );
+
+        expect(screen.getByRole('button', { name: 'Cheap houses' })).toHaveAttribute('aria-current', 'true');
+        expect(screen.getByRole('button', { name: 'Miami villas' })).not.toHaveAttribute('aria-current');
+    });
+
+    it('renames a saved search', async () => {
+        render(<SavedSearches searches={mockSearches} currentFilter={emptyFilter} {...handlers} />);
+
+        fireEvent.click(screen.getByRole('button', { name: /rename miami villas/i }));
+        fireEvent.change(screen.getByLabelText(/rename miami villas/i), {
+            target: { value: 'Miami luxury' },
+        });
+        fireEvent.click(screen.getByRole('button', { name: /save name/i }));
+
+        await waitFor(() => {
+            expect(handlers.onRename).toHaveBeenCalledWith('s1', 'Miami luxury');
+        });
+    });
+
+    it('deletes a saved search', () => {
+        render(<SavedSearches searches={mockSearches} currentFilter={emptyFilter} {...handlers} />);
+
+        fireEvent.click(screen.getByRole('button', { name: /delete cheap houses/i }));
+
+        expect(handlers.onDelete).toHaveBeenCalledWith('s2');
+    });
+
+    it('does not leave a failed delete unhandled', async () => {
+        handlers.onDelete.mockRejectedValueOnce(new Error('Storage is full'));
+        render(<SavedSearches searches={mockSearches} currentFilter={emptyFilter} {...handlers} />);
+
+        fireEvent.click(screen.getByRole('button', { name: /delete cheap houses/i }));
+
+        await waitFor(() => {
+            expect(handlers.onDelete).toHaveBeenCalledWith('s2');
+        });
+        expect(screen.getByText('Cheap houses')).toBeInTheDocument();
+    });
+});
@@ -0,0 +1,281 @@
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import ToastContainer, { TOAST_FOCUS_SHORTCUT } from '../ToastContainer';
+import { Toast } from '@/hooks/useToast';
+
+describe('ToastContainer', () => {
+    const mockOnRemove = jest.fn();
+
+    const baseToast: Toast = {
+        id: 'toast-1',
+        type: 'info',
+        title: 'Deleted',
+        message: 'Property deleted',
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('keeps an empty notification region mounted without toasts', () => {
+        render(<ToastContainer toasts={[]} onRemove={mockOnRemove} />);
+
+        const region = screen.getByRole('region', { name: /notifications/i });
+        expect(region).toBeEmptyDOMElement();
+        expect(screen.getByRole('status')).toBeEmptyDOMElement();
+        expect(screen.getByRole('alert')).toBeEmptyDOMElement();
+    });
+
+    it('renders title and message', () => {
+        render(<ToastContainer toasts={[baseToast]} onRemove={mockOnRemove} />);
+
+        expect(screen.getByText('Deleted')).toBeInTheDocument();
+        expect(screen.getByText('Property deleted')).toBeInTheDocument();
+    });
+
+    it('removes a toast with the close button', () => {
+        render(<ToastContainer toasts={[baseToast]} onRemove={mockOnRemove} />);
+
+        fireEvent.click(screen.getByRole('button', { name: /close notification/i }));
+
+        expect(mockOnRemove).toHaveBeenCalledWith('toast-1');
+    });
+
+    it('renders actions and dismisses the toast when one is clicked', () => {
+        const onUndo = jest.fn();
+        const onView = jest.fn();
+
+        render(
+            <ToastContainer
+                toasts={[
+                    {
+                        ...baseToast,
+                        actions: [
+                            { label: 'Undo', onClick: onUndo },
+                            { label: 'View', onClick: onView },
+                        ],
+                    },
+                ]}
+                onRemove={mockOnRemove}
+            />
+        );
+
+        expect(screen.getByRole('button', { name: 'View' })).toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+
+        expect(onUndo).toHaveBeenCalledTimes(1);
+        expect(onView).not.toHaveBeenCalled();
+        expect(mockOnRemove).toHaveBeenCalledWith('toast-1');
+    });
+
+    it('keeps the toast open for actions that opt out of dismissing', () => {
+        const onDetails = jest.fn();
+
+        render(
+            <ToastContainer
+                toasts={[
+                    {
+                        ...baseToast,
+                        actions: [{ label: 'Details', onClick: onDetails, dismissOnClick: false }],
+                    },
+                ]}
+                onRemove={mockOnRemove}
+            />
+        );
+
+        fireEvent.click(screen.getByRole('button', { name: 'Details' }));
+
+        expect(onDetails).toHaveBeenCalledTimes(1);
+        expect(mockOnRemove).not.toHaveBeenCalled();
+    });
+
+    it('shows a counter for collapsed duplicates', () => {
+        render(<ToastContainer toasts={[{ ...baseToast, count: 3 }]} onRemove={mockOnRemove} />);
+
+        expect(screen.getByLabelText('Shown 3 times')).toHaveTextContent('×3');
+    });
+
+    it('shows a progress bar for timed toasts only', () => {
+        const { rerender } = render(
+            <ToastContainer toasts={[{ ...baseToast, duration: 5000 }]} onRemove={mockOnRemove} />
+        );
+
+        expect(screen.getByTestId('toast-progress')).toHaveStyle({ animationPlayState: 'running' });
+
+        rerender(
+            <ToastContainer
+                toasts={[{ ...baseToast, duration: 5000, paused: true }]}
+                onRemove={mockOnRemove}
+            />
+        );
+        expect(screen.getByTestId('toast-progress')).toHaveStyle({ animationPlayState: 'paused' });
+
+        rerender(<ToastContainer toasts={[{ ...baseToast, duration: 0 }]} onRemove={mockOnRemove} />);
+        expect(screen.queryByTestId('toast-progress')).not.toBeInTheDocument();
+    });
+
+    it('pauses while hovered or focused', () => {
+        const onPause = jest.fn();
+        const onResume = jest.fn();
+
+        render(
+            <ToastContainer
+                toasts={[baseToast]}
+                onRemove={mockOnRemove}
+                onPause={onPause}
+                onResume={onResume}
+            />
+        );
+
+        const toast = screen.getByText('Deleted').closest('[data-toast-id]') as HTMLElement;
+
+        fireEvent.mouseEnter(toast);
+        expect(onPause).toHaveBeenCalledWith('toast-1');
+
+        // Still focused, so leaving with the mouse keeps it paused
+        fireEvent.focus(screen.getByRole('button', { name: /close notification/i }));
+        fireEvent.mouseLeave(toast);
+        expect(onResume).not.toHaveBeenCalled();
+
+        fireEvent.blur(screen.getByRole('button', { name: /close notification/i }));
+        expect(onResume).toHaveBeenCalledWith('toast-1');
+        expect(onPause).toHaveBeenCalledTimes(1);
+    });
+
+    it('shows how many toasts are queued', () => {
+        render(<ToastContainer toasts={[baseToast]} onRemove={mockOnRemove} queuedCount={2} />);
+
+        expect(screen.getByText('+2 more notifications')).toBeInTheDocument();
+    });
+
+    describe('accessibility', () => {
+        it('announces errors and warnings assertively', () => {
+            render(
+                <ToastContainer
+                    toasts={[
+                        { ...baseToast, id: 'error', type: 'error', title: 'Failed' },
+                        { ...baseToast, id: 'warning', type: 'warning', title: 'Careful' },
+                    ]}
+                    onRemove={mockOnRemove}
+                />
+            );
+
+            const alert = screen.getByRole('alert');
+            expect(alert).toHaveAttribute('aria-live', 'assertive');
+            expect(alert).toHaveTextContent('Failed. Property deleted');
+            expect(alert).toHaveTextContent('Careful. Property deleted');
+            expect(screen.getByRole('status')).toBeEmptyDOMElement();
+        });
+
+        it('announces other toasts politely', () => {
+            render(
+                <ToastContainer
+                    toasts={[
+                        { ...baseToast, id: 'success', type: 'success', title: 'Saved' },
+                        { ...baseToast, id: 'loading', type: 'loading', title: 'Saving...' },
+                    ]}
+                    onRemove={mockOnRemove}
+                />
+            );
+
+            const status = screen.getByRole('status');
+            expect(status).toHaveAttribute('aria-live', 'polite');
+            expect(status).toHaveTextContent('Saved. Property deleted');
+            expect(status).toHaveTextContent('Saving.... Property deleted');
+            expect(screen.getByRole('alert')).toBeEmptyDOMElement();
+        });
+
+        it('does not make the toasts themselves live regions', () => {
+            render(<ToastContainer toasts={[baseToast]} onRemove={mockOnRemove} />);
+
+            const toast = screen.getByText('Deleted').closest('[data-toast-id]');
+            expect(toast).not.toHaveAttribute('role');
+            expect(toast).not.toHaveAttribute('aria-live');
+        });
+
+        it('announces a loading toast again when it settles as an error', () => {
+            const loading: Toast = { ...baseToast, type: 'loading', title: 'Saving...' };
+            const { rerender } = render(<ToastContainer toasts={[loading]} onRemove={mockOnRemove} />);
+            const polite = screen.getByRole('status');
+            const assertive = screen.getByRole('alert');
+
+            rerender(
+                <ToastContainer
+                    toasts={[{ ...loading, type: 'error', title: 'Failed' }]}
+                    onRemove={mockOnRemove}
+                />
+            );
+
+            // Same containers, so the new text is an addition to a live region
+            expect(screen.getByRole('status')).toBe(polite);
+            expect(screen.getByRole('alert')).toBe(assertive);
+            expect(polite).toBeEmptyDOMElement();
+            expect(assertive).toHaveTextContent('Failed. Property deleted');
+        });
+
+        it('moves focus to the newest toast with the shortcut', () => {
+            render(
+                <>
+                    <button>Outside</button>
+                    <ToastContainer
+                        toasts={[baseToast, { ...baseToast, id: 'toast-2', title: 'Second' }]}
+                        onRemove={mockOnRemove}
+                    />
+                </>
+            );
+
+            fireEvent.keyDown(window, { key: TOAST_FOCUS_SHORTCUT });
+
+            expect(screen.getByText('Second').closest('[data-toast-id]')).toHaveFocus();
+        });
+
+        it('ignores the shortcut when there are no toasts', () => {
+            render(
+                <>
+                    <button>Outside</button>
+                    <ToastContainer toasts={[]} onRemove={mockOnRemove} />
+                </>
+            );
+            act(() => screen.getByRole('button', { name: 'Outside' }).focus());
+
+            fireEvent.keyDown(window, { key: TOAST_FOCUS_SHORTCUT });
+
+            expect(screen.getByRole('button', { name: 'Outside' })).toHaveFocus();
+        });
+
+        it('dismisses the focused toast with Escape and returns focus', () => {
+            render(
+                <>
+                    <button>Outside</button>
+                    <ToastContainer toasts={[baseToast]} onRemove={mockOnRemove} />
+                </>
+            );
+            const outside = screen.getByRole('button', { name: 'Outside' });
+            act(() => outside.focus());
+
+            fireEvent.keyDown(window, { key: TOAST_FOCUS_SHORTCUT });
+            fireEvent.keyDown(screen.getByRole('button', { name: /close notification/i }), {
+                key: 'Escape',
+            });
+
+            expect(mockOnRemove).toHaveBeenCalledWith('toast-1');
+            expect(outside).toHaveFocus();
+        });
+
+        it('moves focus to the next toast when one of several is dismissed', () => {
+            render(
+                <ToastContainer
+                    toasts={[baseToast, { ...baseToast, id: 'toast-2', title: 'Second' }]}
+                    onRemove={mockOnRemove}
+                />
+            );
+            const first = screen.getByText('Deleted').closest('[data-toast-id]') as HTMLElement;
+            act(() => first.focus());
+
+            fireEvent.keyDown(first, { key: 'Escape' });
+
+            expect(mockOnRemove).toHaveBeenCalledWith('toast-1');
+            expect(screen.getByText('Second').closest('[data-toast-id]')).toHaveFocus();
+        });
+    });
+});
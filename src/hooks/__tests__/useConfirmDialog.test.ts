@@ -0,0 +1,69 @@
+import { renderHook, act } from "@testing-library/react";
+import { useConfirmDialog } from "../useConfirmDialog";
+
+describe("useConfirmDialog", () => {
+  it("opens a request and resolves true on confirm", async () => {
+    const { result } = renderHook(() => useConfirmDialog());
+
+    let answer: Promise<boolean> = Promise.resolve(false);
+    act(() => {
+      answer = result.current.confirm({ title: "Delete?", destructive: true });
+    });
+
+    expect(result.current.request?.options).toEqual({
+      title: "Delete?",
+      destructive: true,
+    });
+
+    act(() => {
+      result.current.settle(true);
+    });
+
+    await expect(answer).resolves.toBe(true);
+    expect(result.current.request).toBeNull();
+  });
+
+  it("resolves false on cancel", async () => {
+    const { result } = renderHook(() => useConfirmDialog());
+
+    let answer: Promise<boolean> = Promise.resolve(true);
+    act(() => {
+      answer = result.current.confirm({ title: "Delete?" });
+    });
+    act(() => {
+      result.current.settle(false);
+    });
+
+    await expect(answer).resolves.toBe(false);
+  });
+
+  it("cancels an open request when a new one arrives", async () => {
+    const { result } = renderHook(() => useConfirmDialog());
+
+    let first: Promise<boolean> = Promise.resolve(true);
+    act(() => {
+      first = result.current.confirm({ title: "First" });
+    });
+    const firstId = result.current.request?.id;
+
+    act(() => {
+      result.current.confirm({ title: "Second" });
+    });
+
+    await expect(first).resolves.toBe(false);
+    expect(result.current.request?.options.title).toBe("Second");
+    expect(result.current.request?.id).not.toBe(firstId);
+  });
+
+  it("resolves false on unmount", async () => {
+    const { result, unmount } = renderHook(() => useConfirmDialog());
+
+    let answer: Promise<boolean> = Promise.resolve(true);
+    act(() => {
+      answer = result.current.confirm({ title: "Delete?" });
+    });
+    unmount();
+
+    await expect(answer).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+import { renderHook, act } from "@testing-library/react";
+import { useFilterSearchParams } from "../useFilterSearchParams";
+import { PropertyFilter } from "@/types";
+
+let mockSearchParams = new URLSearchParams();
+
+jest.mock("next/navigation", () => ({
+  usePathname: () => "/",
+  useSearchParams: () => mockSearchParams,
+}));
+
+describe("useFilterSearchParams", () => {
+  const emptyFilter: PropertyFilter = {
+    name: "",
+    address: "",
+    priceMin: null,
+    priceMax: null,
+    type: null,
+    active: null,
+    sortBy: null,
+    sortDir: null,
+  };
+
+  let pushState: jest.SpyInstance;
+  let replaceState: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockSearchParams = new URLSearchParams();
+    pushState = jest.spyOn(window.history, "pushState");
+    replaceState = jest.spyOn(window.history, "replaceState");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    window.history.replaceState(null, "", "/");
+  });
+
+  it("should hydrate the filter from the query string", () => {
+    mockSearchParams = new URLSearchParams(
+      "name=Villa&priceMin=100000&type=House&active=true"
+    );
+
+    const { result } = renderHook(() => useFilterSearchParams());
+
+    expect(result.current[0]).toEqual({
+      ...emptyFilter,
+      name: "Villa",
+      priceMin: 100000,
+      type: ["House"],
+      active: true,
+    });
+  });
+
+  it("should hydrate multiple types from repeated params", () => {
+    mockSearchParams = new URLSearchParams("type=Villa&type=Estate");
+
+    const { result } = renderHook(() => useFilterSearchParams());
+
+    expect(result.current[0].type).toEqual(["Villa", "Estate"]);
+  });
+
+  it("should replace history while typing", () => {
+    const { result } = renderHook(() => useFilterSearchParams());
+
+    act(() => {
+      result.current[1]({ ...emptyFilter, name: "Vil" });
+    });
+
+    expect(result.current[0].name).toBe("Vil");
+    expect(replaceState).toHaveBeenCalledWith(null, "", "/?name=Vil");
+    expect(pushState).not.toHaveBeenCalled();
+    expect(window.location.search).toBe("?name=Vil");
+  });
+
+  it("should push history for discrete changes", () => {
+    const { result } = renderHook(() => useFilterSearchParams());
+
+    act(() => {
+      result.current[1]({ ...emptyFilter, type: ["House", "Villa"] });
+    });
+
+    expect(pushState).toHaveBeenCalledWith(null, "", "/?type=House&type=Villa");
+    expect(replaceState).not.toHaveBeenCalled();
+  });
+
+  it("should push a clean URL when all filters are cleared", () => {
+    mockSearchParams = new URLSearchParams("name=Villa&priceMax=500000");
+    const { result } = renderHook(() => useFilterSearchParams());
+
+    act(() => {
+      result.current[1](emptyFilter);
+    });
+
+    expect(result.current[0]).toEqual(emptyFilter);
+    expect(pushState).toHaveBeenCalledWith(null, "", "/");
+  });
+
+  it("should restore the filter on back/forward navigation", () => {
+    const { result } = renderHook(() => useFilterSearchParams());
+
+    act(() => {
+      window.history.pushState({}, "", "/?address=Main&active=false");
+      window.dispatchEvent(new PopStateEvent("popstate"));
+    });
+
+    expect(result.current[0]).toEqual({
+      ...emptyFilter,
+      address: "Main",
+      active: false,
+    });
+  });
+});
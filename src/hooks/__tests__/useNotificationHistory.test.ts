@@ -0,0 +1,124 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { useNotificationHistory } from "../useNotificationHistory";
+import {
+  MAX_NOTIFICATION_HISTORY,
+  NOTIFICATION_HISTORY_STORAGE_KEY,
+} from "@/lib/storage/notificationHistoryStorage";
+
+const readStored = () =>
+  JSON.parse(
+    window.sessionStorage.getItem(NOTIFICATION_HISTORY_STORAGE_KEY) ?? "[]"
+  );
+
+describe("useNotificationHistory", () => {
+  beforeEach(() => {
+    window.sessionStorage.clear();
+  });
+
+  it("records notifications newest first as unread", async () => {
+    const { result } = renderHook(() => useNotificationHistory());
+
+    act(() => {
+      result.current.record({ type: "success", title: "Saved!", message: "One" });
+      result.current.record({ type: "error", title: "Error", message: "Two" });
+    });
+
+    expect(result.current.notifications.map((n) => n.message)).toEqual([
+      "Two",
+      "One",
+    ]);
+    expect(result.current.unreadCount).toBe(2);
+    await waitFor(() => {
+      expect(readStored()).toHaveLength(2);
+    });
+  });
+
+  it("restores history from sessionStorage", async () => {
+    window.sessionStorage.setItem(
+      NOTIFICATION_HISTORY_STORAGE_KEY,
+      JSON.stringify([
+        {
+          id: "n1",
+          type: "error",
+          title: "Error",
+          message: "Background save failed",
+          createdAt: "2024-01-01T10:00:00Z",
+          read: false,
+        },
+        { title: "Missing id" },
+      ])
+    );
+
+    const { result } = renderHook(() => useNotificationHistory());
+
+    await waitFor(() => {
+      expect(result.current.notifications).toHaveLength(1);
+    });
+    expect(result.current.notifications[0]).toMatchObject({
+      id: "n1",
+      message: "Background save failed",
+      read: false,
+    });
+  });
+
+  it("ignores corrupt stored data", async () => {
+    window.sessionStorage.setItem(NOTIFICATION_HISTORY_STORAGE_KEY, "{not json");
+
+    const { result } = renderHook(() => useNotificationHistory());
+
+    await waitFor(() => {
+      expect(readStored()).toEqual([]);
+    });
+    expect(result.current.notifications).toEqual([]);
+  });
+
+  it("marks notifications as read", () => {
+    const { result } = renderHook(() => useNotificationHistory());
+
+    act(() => {
+      result.current.record({ type: "info", title: "A", message: "" });
+      result.current.record({ type: "info", title: "B", message: "" });
+    });
+
+    act(() => {
+      result.current.markRead(result.current.notifications[0].id);
+    });
+    expect(result.current.unreadCount).toBe(1);
+
+    act(() => {
+      result.current.markAllRead();
+    });
+    expect(result.current.unreadCount).toBe(0);
+  });
+
+  it("clears all notifications", async () => {
+    const { result } = renderHook(() => useNotificationHistory());
+
+    act(() => {
+      result.current.record({ type: "info", title: "A", message: "" });
+    });
+    act(() => {
+      result.current.clearAll();
+    });
+
+    expect(result.current.notifications).toEqual([]);
+    await waitFor(() => {
+      expect(readStored()).toEqual([]);
+    });
+  });
+
+  it("caps the history length", () => {
+    const { result } = renderHook(() => useNotificationHistory());
+
+    act(() => {
+      for (let i = 0; i <= MAX_NOTIFICATION_HISTORY; i++) {
+        result.current.record({ type: "info", title: `#${i}`, message: "" });
+      }
+    });
+
+    expect(result.current.notifications).toHaveLength(MAX_NOTIFICATION_HISTORY);
+    expect(result.current.notifications[0].title).toBe(
+      `#${MAX_NOTIFICATION_HISTORY}`
+    );
+  });
+});
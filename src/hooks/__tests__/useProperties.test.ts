@@ -1,7 +1,8 @@
 import { renderHook, act, waitFor } from "@testing-library/react";
-import { useProperties } from "../useProperties";
+import { useProperties, UsePropertiesOptions } from "../useProperties";
 import { propertyApi } from "@/lib/api/propertyService";
-import { Property, Category } from "@/types";
+import { categoriesCache, propertyListCache } from "@/lib/api/queryCache";
+import { Property, Category, PropertyFilter } from "@/types";
 
 // Mock the API service
 jest.mock("@/lib/api/propertyService");
@@ -35,40 +36,85 @@ describe("useProperties", () => {
     { id: "2", name: "Apartment", color: "#10B981" },
   ];
 
+  const mockPage = (data: Property[], totalRecords = data.length) => ({
+    data,
+    pageNumber: 1,
+    pageSize: 12,
+    totalPages: Math.max(1, Math.ceil(totalRecords / 12)),
+    totalRecords,
+  });
+
+  const deferred = <T,>() => {
+    let resolve: (value: T) => void = () => {};
+    let reject: (reason: unknown) => void = () => {};
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  const serverError = { message: "Server error", statusCode: 500 };
+
   beforeEach(() => {
     jest.clearAllMocks();
-    (propertyApi.getProperties as jest.Mock).mockResolvedValue(mockProperties);
+    propertyListCache.clear();
+    categoriesCache.clear();
+    (propertyApi.getProperties as jest.Mock).mockResolvedValue(
+      mockPage(mockProperties)
+    );
     (propertyApi.getCategories as jest.Mock).mockResolvedValue(mockCategories);
   });
 
+  const renderProperties = (
+    filter: PropertyFilter = {},
+    options: UsePropertiesOptions = {}
+  ) =>
+    renderHook(
+      (props: { filter: PropertyFilter }) =>
+        useProperties(props.filter, { debounceMs: 0, ...options }),
+      { initialProps: { filter } }
+    );
+
+  // Waits for the first load and the debounced reload that follows it,
+  // so no state update lands outside act()
+  const renderLoaded = async (
+    filter: PropertyFilter = {},
+    options: UsePropertiesOptions = {}
+  ) => {
+    const hook = renderProperties(filter, options);
+    await waitFor(() => {
+      expect(hook.result.current.isLoading).toBe(false);
+    });
+    await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+    return hook;
+  };
+
   it("loads properties and categories on mount", async () => {
-    const { result } = renderHook(() => useProperties());
+    const { result } = renderProperties();
 
     expect(result.current.isLoading).toBe(true);
 
     await waitFor(() => {
       expect(result.current.isLoading).toBe(false);
     });
+    await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
 
     expect(result.current.properties).toEqual(mockProperties);
     expect(result.current.categories).toEqual(mockCategories);
+    expect(result.current.error).toBeNull();
   });
 
-  it("calls onError when loading fails", async () => {
+  it("exposes load errors and calls onError", async () => {
     const mockOnError = jest.fn();
     const error = { message: "Failed to load", statusCode: 500 };
 
     (propertyApi.getProperties as jest.Mock).mockRejectedValue(error);
 
-    const { result } = renderHook(() =>
-      useProperties({}, { onError: mockOnError })
-    );
-
-    await waitFor(() => {
-      expect(result.current.isLoading).toBe(false);
-    });
+    const { result } = await renderLoaded({}, { onError: mockOnError });
 
     expect(mockOnError).toHaveBeenCalledWith(error);
+    expect(result.current.error).toEqual(error);
   });
 
   it("creates a property successfully", async () => {
@@ -92,13 +138,7 @@ describe("useProperties", () => {
       createdProperty
     );
 
-    const { result } = renderHook(() =>
-      useProperties({}, { onSuccess: mockOnSuccess })
-    );
-
-    await waitFor(() => {
-      expect(result.current.isLoading).toBe(false);
-    });
+    const { result } = await renderLoaded({}, { onSuccess: mockOnSuccess });
 
     await act(async () => {
       await result.current.createProperty(newProperty);
@@ -110,6 +150,31 @@ describe("useProperties", () => {
     expect(result.current.properties[0]).toEqual(createdProperty);
   });
 
+  it("places a created property according to the active sort", async () => {
+    const createdProperty: Property = {
+      id: "3",
+      name: "Mid Property",
+      addressProperty: "789 New St",
+      priceProperty: 300000,
+      type: "House",
+      description: "New description",
+      active: true,
+      createdAt: "2024-01-03T00:00:00Z",
+    };
+
+    (propertyApi.createProperty as jest.Mock).mockResolvedValue(
+      createdProperty
+    );
+
+    const { result } = await renderLoaded({ sortBy: "price", sortDir: "asc" });
+
+    await act(async () => {
+      await result.current.createProperty(createdProperty);
+    });
+
+    expect(result.current.properties.map((p) => p.id)).toEqual(["1", "3", "2"]);
+  });
+
   it("handles create property errors", async () => {
     const mockOnError = jest.fn();
     const error = { message: "Create failed", statusCode: 400 };
@@ -124,13 +189,7 @@ describe("useProperties", () => {
 
     (propertyApi.createProperty as jest.Mock).mockRejectedValue(error);
 
-    const { result } = renderHook(() =>
-      useProperties({}, { onError: mockOnError })
-    );
-
-    await waitFor(() => {
-      expect(result.current.isLoading).toBe(false);
-    });
+    const { result } = await renderLoaded({}, { onError: mockOnError });
 
     await act(async () => {
       await expect(result.current.createProperty(newProperty)).rejects.toEqual(
@@ -146,13 +205,7 @@ describe("useProperties", () => {
 
     (propertyApi.deleteProperty as jest.Mock).mockResolvedValue(undefined);
 
-    const { result } = renderHook(() =>
-      useProperties({}, { onSuccess: mockOnSuccess })
-    );
-
-    await waitFor(() => {
-      expect(result.current.isLoading).toBe(false);
-    });
+    const { result } = await renderLoaded({}, { onSuccess: mockOnSuccess });
 
     await act(async () => {
       await result.current.deleteProperty("1");
@@ -164,44 +217,68 @@ describe("useProperties", () => {
     expect(result.current.properties.find((p) => p.id === "1")).toBeUndefined();
   });
 
-  it("updates filter and reloads data with debounce", async () => {
-    jest.useFakeTimers();
-
-    const { result } = renderHook(() => useProperties({}, { debounceMs: 500 }));
-
-    await waitFor(() => {
-      expect(result.current.isLoading).toBe(false);
-    });
+  it("reloads the first page with debounce when the filter changes", async () => {
+    const { rerender } = await renderLoaded();
 
     (propertyApi.getProperties as jest.Mock).mockClear();
 
-    act(() => {
-      result.current.setFilter({ name: "Beach" });
-    });
+    rerender({ filter: { name: "Beach house" } });
 
     // Should not call API immediately
     expect(propertyApi.getProperties).not.toHaveBeenCalled();
 
-    // Fast-forward time
-    act(() => {
+    await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+
+    expect(propertyApi.getProperties).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "Beach house" }),
+      { pageNumber: 1, pageSize: 12 },
+      { signal: expect.any(AbortSignal) }
+    );
+  });
+
+  it("waits for the debounce before loading a new filter", async () => {
+    jest.useFakeTimers();
+    const { rerender } = renderHook(
+      (props: { filter: PropertyFilter }) =>
+        useProperties(props.filter, { debounceMs: 500 }),
+      { initialProps: { filter: {} as PropertyFilter } }
+    );
+    await act(async () => {
       jest.advanceTimersByTime(500);
     });
+    (propertyApi.getProperties as jest.Mock).mockClear();
 
-    await waitFor(() => {
-      expect(propertyApi.getProperties).toHaveBeenCalledWith(
-        expect.objectContaining({ name: "Beach" })
-      );
+    rerender({ filter: { name: "Beach" } });
+    await act(async () => {
+      jest.advanceTimersByTime(499);
     });
+    expect(propertyApi.getProperties).not.toHaveBeenCalled();
+
+    await act(async () => {
+      jest.advanceTimersByTime(1);
+    });
+    expect(propertyApi.getProperties).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "Beach" }),
+      { pageNumber: 1, pageSize: 12 },
+      { signal: expect.any(AbortSignal) }
+    );
 
     jest.useRealTimers();
   });
 
-  it("gets property by ID", async () => {
-    const { result } = renderHook(() => useProperties());
+  it("does not reload for an equal filter object", async () => {
+    const { rerender } = await renderLoaded({ name: "Beach" });
+    (propertyApi.getProperties as jest.Mock).mockClear();
+    propertyListCache.clear();
 
-    await waitFor(() => {
-      expect(result.current.isLoading).toBe(false);
-    });
+    rerender({ filter: { name: "Beach" } });
+    await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+
+    expect(propertyApi.getProperties).not.toHaveBeenCalled();
+  });
+
+  it("gets property by ID", async () => {
+    const { result } = await renderLoaded();
 
     const property = result.current.getPropertyById("1");
 
@@ -209,11 +286,7 @@ describe("useProperties", () => {
   });
 
   it("refreshes data", async () => {
-    const { result } = renderHook(() => useProperties());
-
-    await waitFor(() => {
-      expect(result.current.isLoading).toBe(false);
-    });
+    const { result } = await renderLoaded();
 
     (propertyApi.getProperties as jest.Mock).mockClear();
 
@@ -240,13 +313,7 @@ describe("useProperties", () => {
       updatedProperty
     );
 
-    const { result } = renderHook(() =>
-      useProperties({}, { onSuccess: mockOnSuccess })
-    );
-
-    await waitFor(() => {
-      expect(result.current.isLoading).toBe(false);
-    });
+    const { result } = await renderLoaded({}, { onSuccess: mockOnSuccess });
 
     await act(async () => {
       await result.current.updateProperty("1", updates);
@@ -258,4 +325,510 @@ describe("useProperties", () => {
       updatedProperty
     );
   });
+
+  it("exposes pagination state from the response", async () => {
+    (propertyApi.getProperties as jest.Mock).mockResolvedValue(
+      mockPage(mockProperties, 30)
+    );
+
+    const { result } = await renderLoaded();
+
+    expect(result.current.pagination).toEqual({
+      pageNumber: 1,
+      pageSize: 12,
+      totalPages: 3,
+      totalRecords: 30,
+    });
+  });
+
+  it("loads the requested page", async () => {
+    (propertyApi.getProperties as jest.Mock).mockResolvedValue(
+      mockPage(mockProperties, 30)
+    );
+
+    const { result } = await renderLoaded();
+
+    (propertyApi.getProperties as jest.Mock).mockResolvedValueOnce({
+      ...mockPage(mockProperties, 30),
+      pageNumber: 2,
+    });
+
+    await act(async () => {
+      await result.current.setPage(2);
+    });
+
+    expect(propertyApi.getProperties).toHaveBeenLastCalledWith(
+      expect.any(Object),
+      { pageNumber: 2, pageSize: 12 },
+      { signal: expect.any(AbortSignal) }
+    );
+    expect(result.current.pagination.pageNumber).toBe(2);
+  });
+
+  it("updates total records after a delete", async () => {
+    (propertyApi.deleteProperty as jest.Mock).mockResolvedValue(undefined);
+
+    const { result } = await renderLoaded();
+
+    await act(async () => {
+      await result.current.deleteProperty("1");
+    });
+
+    expect(result.current.pagination.totalRecords).toBe(1);
+  });
+
+  it("falls back to the previous page when deletes empty the current one", async () => {
+    (propertyApi.getProperties as jest.Mock).mockResolvedValue(
+      mockPage(mockProperties, 14)
+    );
+    (propertyApi.deleteProperty as jest.Mock).mockResolvedValue(undefined);
+    const { result } = await renderLoaded();
+
+    (propertyApi.getProperties as jest.Mock).mockResolvedValueOnce({
+      ...mockPage([mockProperties[1]], 13),
+      pageNumber: 2,
+    });
+    await act(async () => {
+      await result.current.setPage(2);
+    });
+
+    (propertyApi.getProperties as jest.Mock).mockResolvedValue(
+      mockPage(mockProperties, 12)
+    );
+    await act(async () => {
+      await result.current.deleteProperty("2");
+    });
+
+    await waitFor(() => {
+      expect(result.current.pagination.pageNumber).toBe(1);
+    });
+    expect(propertyApi.getProperties).toHaveBeenLastCalledWith(
+      expect.any(Object),
+      { pageNumber: 1, pageSize: 12 },
+      { signal: expect.any(AbortSignal) }
+    );
+    expect(result.current.properties).toHaveLength(2);
+  });
+
+  describe("optimistic mutations", () => {
+    it("shows a created property under a temporary ID until the server responds", async () => {
+      const request = deferred<Property>();
+      (propertyApi.createProperty as jest.Mock).mockReturnValue(request.promise);
+      const { result } = await renderLoaded();
+
+      const input = {
+        name: "Optimistic",
+        addressProperty: "1 Fast Ln",
+        priceProperty: 100000,
+        type: "House",
+        description: "Pending",
+      };
+      let pending: Promise<Property>;
+      act(() => {
+        pending = result.current.createProperty(input);
+      });
+
+      expect(result.current.properties[0]).toMatchObject({
+        name: "Optimistic",
+        id: expect.stringMatching(/^temp-/),
+      });
+      expect(result.current.pagination.totalRecords).toBe(3);
+
+      await act(async () => {
+        request.resolve({ ...input, id: "99", active: true, createdAt: "2024-02-01T00:00:00Z" });
+        await pending;
+      });
+
+      expect(result.current.properties.map((p) => p.id)).toEqual(["99", "1", "2"]);
+    });
+
+    it("removes the temporary property when create fails", async () => {
+      (propertyApi.createProperty as jest.Mock).mockRejectedValue(serverError);
+      const mockOnError = jest.fn();
+      const { result } = await renderLoaded({}, { onError: mockOnError });
+
+      await act(async () => {
+        await expect(
+          result.current.createProperty({
+            name: "Doomed",
+            addressProperty: "1 Fail St",
+            priceProperty: 1,
+            type: "House",
+            description: "Will fail",
+          })
+        ).rejects.toEqual(serverError);
+      });
+
+      expect(result.current.properties.map((p) => p.id)).toEqual(["1", "2"]);
+      expect(result.current.pagination.totalRecords).toBe(2);
+      expect(mockOnError).toHaveBeenCalledWith(serverError);
+    });
+
+    it("applies updates immediately and rolls them back on failure", async () => {
+      const request = deferred<Property>();
+      (propertyApi.updateProperty as jest.Mock).mockReturnValue(request.promise);
+      const { result } = await renderLoaded();
+
+      let pending: Promise<Property>;
+      act(() => {
+        pending = result.current.updateProperty("1", { name: "Renamed" });
+      });
+
+      expect(result.current.properties[0].name).toBe("Renamed");
+
+      await act(async () => {
+        request.reject(serverError);
+        await pending.catch(() => {});
+      });
+
+      expect(result.current.properties[0]).toEqual(mockProperties[0]);
+    });
+
+    it("hides a deleted property right away and restores it on failure", async () => {
+      const request = deferred<void>();
+      (propertyApi.deleteProperty as jest.Mock).mockReturnValue(request.promise);
+      const mockOnError = jest.fn();
+      const { result } = await renderLoaded({}, { onError: mockOnError });
+
+      let pending: Promise<void>;
+      act(() => {
+        pending = result.current.deleteProperty("1");
+      });
+
+      expect(result.current.properties.map((p) => p.id)).toEqual(["2"]);
+      expect(result.current.isSubmitting).toBe(true);
+
+      await act(async () => {
+        request.reject(serverError);
+        await pending.catch(() => {});
+      });
+
+      expect(result.current.properties.map((p) => p.id)).toEqual(["1", "2"]);
+      expect(result.current.pagination.totalRecords).toBe(2);
+      expect(result.current.isSubmitting).toBe(false);
+      expect(mockOnError).toHaveBeenCalledWith(serverError);
+    });
+
+    it("restores overlapping deletes at their own positions", async () => {
+      const third: Property = { ...mockProperties[1], id: "3", name: "Test Property 3" };
+      (propertyApi.getProperties as jest.Mock).mockResolvedValue(
+        mockPage([...mockProperties, third])
+      );
+      const first = deferred<void>();
+      const second = deferred<void>();
+      (propertyApi.deleteProperty as jest.Mock)
+        .mockReturnValueOnce(first.promise)
+        .mockReturnValueOnce(second.promise);
+      const { result } = await renderLoaded();
+
+      // Both start from the same render, before either removal is applied
+      let pendingFirst: Promise<void>;
+      let pendingSecond: Promise<void>;
+      act(() => {
+        pendingFirst = result.current.deleteProperty("1");
+        pendingSecond = result.current.deleteProperty("2");
+      });
+      expect(result.current.properties.map((p) => p.id)).toEqual(["3"]);
+
+      await act(async () => {
+        second.reject(serverError);
+        await pendingSecond.catch(() => {});
+      });
+      await act(async () => {
+        first.reject(serverError);
+        await pendingFirst.catch(() => {});
+      });
+
+      expect(result.current.properties.map((p) => p.id)).toEqual(["1", "2", "3"]);
+      expect(result.current.pagination.totalRecords).toBe(3);
+    });
+
+    it("does not clobber concurrent mutations when rolling back", async () => {
+      const failing = deferred<void>();
+      const succeeding = deferred<Property>();
+      (propertyApi.deleteProperty as jest.Mock).mockReturnValue(failing.promise);
+      (propertyApi.updateProperty as jest.Mock).mockReturnValue(succeeding.promise);
+      const { result } = await renderLoaded();
+
+      let pendingDelete: Promise<void>;
+      let pendingUpdate: Promise<Property>;
+      act(() => {
+        pendingDelete = result.current.deleteProperty("1");
+      });
+      act(() => {
+        pendingUpdate = result.current.updateProperty("2", { name: "Updated" });
+      });
+
+      await act(async () => {
+        succeeding.resolve({ ...mockProperties[1], name: "Updated" });
+        await pendingUpdate;
+      });
+      await act(async () => {
+        failing.reject(serverError);
+        await pendingDelete.catch(() => {});
+      });
+
+      // The failed delete is undone without reverting the successful update
+      expect(result.current.properties.map((p) => [p.id, p.name])).toEqual([
+        ["1", "Test Property 1"],
+        ["2", "Updated"],
+      ]);
+    });
+  });
+
+  describe("undoable deletes", () => {
+    it("hides the property and sends nothing until committed", async () => {
+      (propertyApi.deleteProperty as jest.Mock).mockResolvedValue(undefined);
+      const { result } = await renderLoaded();
+
+      let pending: ReturnType<typeof result.current.scheduleDelete> = null;
+      act(() => {
+        pending = result.current.scheduleDelete("1");
+      });
+
+      expect(pending!.property).toEqual(mockProperties[0]);
+      expect(result.current.properties.map((p) => p.id)).toEqual(["2"]);
+      expect(result.current.pagination.totalRecords).toBe(1);
+      expect(result.current.isDeletePending("1")).toBe(true);
+      expect(propertyApi.deleteProperty).not.toHaveBeenCalled();
+
+      await act(async () => {
+        pending!.commit();
+      });
+
+      expect(propertyApi.deleteProperty).toHaveBeenCalledWith("1", { keepalive: true });
+      expect(result.current.isDeletePending("1")).toBe(false);
+      expect(result.current.properties.map((p) => p.id)).toEqual(["2"]);
+    });
+
+    it("puts the property back on undo", async () => {
+      const { result } = await renderLoaded();
+
+      let pending: ReturnType<typeof result.current.scheduleDelete> = null;
+      act(() => {
+        pending = result.current.scheduleDelete("1");
+      });
+      act(() => {
+        pending!.undo();
+      });
+
+      expect(result.current.properties.map((p) => p.id)).toEqual(["1", "2"]);
+      expect(result.current.pagination.totalRecords).toBe(2);
+      expect(propertyApi.deleteProperty).not.toHaveBeenCalled();
+    });
+
+    it("keeps the property hidden when the list reloads", async () => {
+      const { result } = await renderLoaded();
+
+      act(() => {
+        result.current.scheduleDelete("1");
+      });
+      await act(async () => {
+        await result.current.refresh();
+      });
+
+      expect(result.current.properties.map((p) => p.id)).toEqual(["2"]);
+      expect(result.current.pagination.totalRecords).toBe(1);
+    });
+
+    it("ignores unsaved and already pending properties", async () => {
+      const { result } = await renderLoaded();
+
+      act(() => {
+        result.current.scheduleDelete("1");
+      });
+
+      expect(result.current.scheduleDelete("1")).toBeNull();
+      expect(result.current.scheduleDelete("temp-1-1")).toBeNull();
+    });
+
+    it("restores the property when the delete fails and can retry it", async () => {
+      (propertyApi.deleteProperty as jest.Mock)
+        .mockRejectedValueOnce(serverError)
+        .mockResolvedValueOnce(undefined);
+      const onError = jest.fn();
+      const { result } = await renderLoaded();
+
+      let pending: ReturnType<typeof result.current.scheduleDelete> = null;
+      act(() => {
+        pending = result.current.scheduleDelete("1", { onError });
+      });
+      await act(async () => {
+        pending!.commit();
+      });
+
+      expect(onError).toHaveBeenCalledWith(serverError, expect.any(Function));
+      expect(result.current.properties.map((p) => p.id)).toEqual(["1", "2"]);
+
+      const retry = onError.mock.calls[0][1];
+      await act(async () => {
+        retry();
+      });
+
+      expect(propertyApi.deleteProperty).toHaveBeenCalledTimes(2);
+      expect(result.current.properties.map((p) => p.id)).toEqual(["2"]);
+      expect(result.current.pagination.totalRecords).toBe(1);
+    });
+
+    it("sends pending deletes on unmount", async () => {
+      (propertyApi.deleteProperty as jest.Mock).mockResolvedValue(undefined);
+      const { result, unmount } = await renderLoaded();
+
+      act(() => {
+        result.current.scheduleDelete("1");
+      });
+      unmount();
+
+      expect(propertyApi.deleteProperty).toHaveBeenCalledWith("1", { keepalive: true });
+    });
+  });
+
+  describe("bulk actions", () => {
+    it("applies successful updates and reports the failures", async () => {
+      (propertyApi.updateProperty as jest.Mock).mockImplementation(
+        (id: string, input: Partial<Property>) =>
+          id === "1"
+            ? Promise.resolve({ ...mockProperties[0], ...input })
+            : Promise.reject(serverError)
+      );
+      const onProgress = jest.fn();
+      const { result } = await renderLoaded();
+
+      let outcome: Awaited<ReturnType<typeof result.current.updateMany>>;
+      await act(async () => {
+        outcome = await result.current.updateMany(["1", "2"], { active: false }, { onProgress });
+      });
+
+      expect(outcome!.succeeded.map(({ item }) => item.id)).toEqual(["1"]);
+      expect(outcome!.failed).toEqual([{ item: mockProperties[1], error: serverError }]);
+      expect(onProgress).toHaveBeenLastCalledWith(2, 2);
+      expect(result.current.properties.map((p) => p.active)).toEqual([false, true]);
+    });
+
+    it("removes deleted properties and refills the page", async () => {
+      (propertyApi.deleteProperty as jest.Mock).mockResolvedValue(undefined);
+      const { result } = await renderLoaded();
+
+      (propertyApi.getProperties as jest.Mock).mockClear();
+      (propertyApi.getProperties as jest.Mock).mockResolvedValue(mockPage([]));
+      await act(async () => {
+        await result.current.deleteMany(["1", "2"]);
+      });
+
+      expect(propertyApi.deleteProperty).toHaveBeenCalledTimes(2);
+      expect(propertyApi.getProperties).toHaveBeenCalledTimes(1);
+      expect(result.current.properties).toEqual([]);
+      expect(result.current.pagination.totalRecords).toBe(0);
+      expect(result.current.isSubmitting).toBe(false);
+    });
+  });
+
+  describe("query cache", () => {
+    it("serves a previously viewed filter from cache without refetching", async () => {
+      const { result, rerender } = await renderLoaded();
+      expect(propertyApi.getCategories).toHaveBeenCalledTimes(1);
+
+      (propertyApi.getProperties as jest.Mock).mockResolvedValue(
+        mockPage([mockProperties[0]])
+      );
+      rerender({ filter: { name: "Test Property 1" } });
+      await waitFor(() => {
+        expect(result.current.properties).toHaveLength(1);
+      });
+
+      (propertyApi.getProperties as jest.Mock).mockClear();
+      rerender({ filter: {} });
+
+      // Cached list appears without going back to the network
+      await waitFor(() => {
+        expect(result.current.properties).toHaveLength(2);
+      });
+      expect(result.current.isLoading).toBe(false);
+      expect(propertyApi.getProperties).not.toHaveBeenCalled();
+      expect(propertyApi.getCategories).toHaveBeenCalledTimes(1);
+    });
+
+    it("shows stale results while revalidating after a mutation", async () => {
+      (propertyApi.deleteProperty as jest.Mock).mockResolvedValue(undefined);
+
+      const { result } = await renderLoaded();
+
+      await act(async () => {
+        await result.current.deleteProperty("1");
+      });
+
+      let resolveFresh: (value: unknown) => void = () => {};
+      (propertyApi.getProperties as jest.Mock).mockClear();
+      (propertyApi.getProperties as jest.Mock).mockReturnValue(
+        new Promise((resolve) => {
+          resolveFresh = resolve;
+        })
+      );
+
+      act(() => {
+        result.current.refresh();
+      });
+
+      // The patched cache entry is shown while the request is in flight
+      expect(result.current.isLoading).toBe(false);
+      expect(result.current.properties.map((p) => p.id)).toEqual(["2"]);
+      expect(propertyApi.getProperties).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        resolveFresh(mockPage([mockProperties[1]]));
+      });
+
+      expect(result.current.pagination.totalRecords).toBe(1);
+    });
+  });
+
+  describe("request cancellation", () => {
+    const abortableRequest = (
+      _filters: unknown,
+      _pagination: unknown,
+      options: { signal: AbortSignal }
+    ) =>
+      new Promise((_, reject) => {
+        options.signal.addEventListener("abort", () =>
+          reject(new DOMException("Aborted", "AbortError"))
+        );
+      });
+
+    it("aborts the previous request when the filter changes", async () => {
+      (propertyApi.getProperties as jest.Mock).mockImplementation(
+        abortableRequest
+      );
+      const mockOnError = jest.fn();
+
+      const { rerender } = renderProperties({}, { onError: mockOnError });
+
+      const firstSignal = (propertyApi.getProperties as jest.Mock).mock
+        .calls[0][2].signal as AbortSignal;
+      expect(firstSignal.aborted).toBe(false);
+
+      rerender({ filter: { name: "Beach" } });
+
+      expect(firstSignal.aborted).toBe(true);
+      await act(async () => {});
+      expect(mockOnError).not.toHaveBeenCalled();
+    });
+
+    it("aborts the pending request on unmount without reporting it", async () => {
+      (propertyApi.getProperties as jest.Mock).mockImplementation(
+        abortableRequest
+      );
+      const mockOnError = jest.fn();
+
+      const { unmount } = renderProperties({}, { onError: mockOnError });
+
+      const signal = (propertyApi.getProperties as jest.Mock).mock.calls[0][2]
+        .signal as AbortSignal;
+
+      unmount();
+      await act(async () => {});
+
+      expect(signal.aborted).toBe(true);
+      expect(mockOnError).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,109 @@
+import { renderHook, act } from "@testing-library/react";
+import { usePropertyImport } from "../usePropertyImport";
+import { propertyApi } from "@/lib/api/propertyService";
+import { ImportRow } from "@/lib/utils/propertyImport";
+import { Property } from "@/types";
+
+jest.mock("@/lib/api/propertyService");
+
+const row = (rowNumber: number): ImportRow => ({
+  rowNumber,
+  record: { name: `Property ${rowNumber}` },
+  input: {
+    name: `Property ${rowNumber}`,
+    description: "Imported",
+    addressProperty: `${rowNumber} Import St`,
+    type: "House",
+    priceProperty: 100000 * rowNumber,
+  },
+  errors: {},
+});
+
+const created = (rowNumber: number): Property => ({
+  id: String(rowNumber),
+  name: `Property ${rowNumber}`,
+  description: "Imported",
+  addressProperty: `${rowNumber} Import St`,
+  type: "House",
+  priceProperty: 100000 * rowNumber,
+  active: true,
+  createdAt: "2024-01-01T00:00:00Z",
+});
+
+describe("usePropertyImport", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("creates every row and reports failures with the server message", async () => {
+    (propertyApi.createProperty as jest.Mock).mockImplementation(
+      async (input: { name: string }) => {
+        if (input.name === "Property 2") {
+          throw { message: "Duplicate address", statusCode: 409 };
+        }
+        return created(Number(input.name.split(" ")[1]));
+      }
+    );
+    const { result } = renderHook(() => usePropertyImport());
+
+    await act(async () => {
+      await result.current.start([row(1), row(2), row(3)]);
+    });
+
+    expect(propertyApi.createProperty).toHaveBeenCalledTimes(3);
+    expect(propertyApi.createProperty).toHaveBeenCalledWith(row(1).input);
+    expect(result.current.isRunning).toBe(false);
+    expect(result.current.result?.created.map((p) => p.id)).toEqual(["1", "3"]);
+    expect(result.current.result?.failed).toEqual([
+      { row: row(2), reason: "Duplicate address" },
+    ]);
+    expect(result.current.result?.cancelled).toBe(false);
+  });
+
+  it("stops sending rows after cancel and lists the rest as skipped", async () => {
+    const pending: (() => void)[] = [];
+    (propertyApi.createProperty as jest.Mock).mockImplementation(
+      (input: { name: string }) =>
+        new Promise((resolve) => {
+          pending.push(() => resolve(created(Number(input.name.split(" ")[1]))));
+        })
+    );
+    const rows = [1, 2, 3, 4, 5, 6].map(row);
+    const { result } = renderHook(() => usePropertyImport());
+
+    let done!: Promise<unknown>;
+    act(() => {
+      done = result.current.start(rows);
+    });
+    expect(result.current.progress).toEqual({ completed: 0, total: 6 });
+
+    act(() => {
+      result.current.cancel();
+    });
+    await act(async () => {
+      pending.forEach((resolve) => resolve());
+      await done;
+    });
+
+    // Only the first batch was in flight when the import was cancelled
+    expect(propertyApi.createProperty).toHaveBeenCalledTimes(4);
+    expect(result.current.result?.created).toHaveLength(4);
+    expect(result.current.result?.skipped.map((r) => r.rowNumber)).toEqual([5, 6]);
+    expect(result.current.result?.cancelled).toBe(true);
+    expect(result.current.progress).toBeNull();
+  });
+
+  it("clears the result on reset", async () => {
+    (propertyApi.createProperty as jest.Mock).mockResolvedValue(created(1));
+    const { result } = renderHook(() => usePropertyImport());
+
+    await act(async () => {
+      await result.current.start([row(1)]);
+    });
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.result).toBeNull();
+  });
+});
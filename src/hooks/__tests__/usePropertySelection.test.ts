@@ -0,0 +1,104 @@
+import { renderHook, act } from "@testing-library/react";
+import { usePropertySelection } from "../usePropertySelection";
+
+const ids = ["1", "2", "3", "4", "5"];
+
+describe("usePropertySelection", () => {
+  it("toggles single items", () => {
+    const { result } = renderHook(() => usePropertySelection(ids));
+
+    act(() => {
+      result.current.toggle("2");
+    });
+    expect(result.current.selectedIds).toEqual(["2"]);
+    expect(result.current.isSelected("2")).toBe(true);
+
+    act(() => {
+      result.current.toggle("2");
+    });
+    expect(result.current.selectedIds).toEqual([]);
+  });
+
+  it("selects a range from the anchor with shift-click", () => {
+    const { result } = renderHook(() => usePropertySelection(ids));
+
+    act(() => {
+      result.current.toggle("4");
+    });
+    act(() => {
+      result.current.toggle("2", true);
+    });
+
+    expect(result.current.selectedIds).toEqual(["2", "3", "4"]);
+  });
+
+  it("deselects a range when the clicked item was selected", () => {
+    const { result } = renderHook(() => usePropertySelection(ids));
+
+    act(() => {
+      result.current.selectAll();
+    });
+    act(() => {
+      result.current.toggle("1");
+    });
+    act(() => {
+      result.current.toggle("3", true);
+    });
+
+    expect(result.current.selectedIds).toEqual(["4", "5"]);
+  });
+
+  it("treats a shift-click without an anchor as a single toggle", () => {
+    const { result } = renderHook(() => usePropertySelection(ids));
+
+    act(() => {
+      result.current.toggle("3", true);
+    });
+
+    expect(result.current.selectedIds).toEqual(["3"]);
+  });
+
+  it("selects all and clears", () => {
+    const { result } = renderHook(() => usePropertySelection(ids));
+
+    act(() => {
+      result.current.selectAll();
+    });
+    expect(result.current.allSelected).toBe(true);
+    expect(result.current.selectedIds).toEqual(ids);
+
+    act(() => {
+      result.current.clear();
+    });
+    expect(result.current.selectedIds).toEqual([]);
+    expect(result.current.allSelected).toBe(false);
+  });
+
+  it("drops ids that leave the page", () => {
+    const { result, rerender } = renderHook(
+      ({ pageIds }) => usePropertySelection(pageIds),
+      { initialProps: { pageIds: ids } }
+    );
+
+    act(() => {
+      result.current.selectAll();
+    });
+    rerender({ pageIds: ["4", "5", "6"] });
+
+    expect(result.current.selectedIds).toEqual(["4", "5"]);
+    expect(result.current.allSelected).toBe(false);
+  });
+
+  it("deselects specific ids", () => {
+    const { result } = renderHook(() => usePropertySelection(ids));
+
+    act(() => {
+      result.current.selectAll();
+    });
+    act(() => {
+      result.current.deselect(["1", "5"]);
+    });
+
+    expect(result.current.selectedIds).toEqual(["2", "3", "4"]);
+  });
+});
@@ -185,6 +185,385 @@ describe("useToast", () => {
     expect(result.current.toasts[0].message).toBe("Failed to save property");
   });
 
+  it("attaches actions to toasts", () => {
+    const { result } = renderHook(() => useToast());
+    const onUndo = jest.fn();
+
+    act(() => {
+      result.current.info("Deleted", "Property deleted", 5000, {
+        actions: [{ label: "Undo", onClick: onUndo }],
+      });
+    });
+
+    expect(result.current.toasts[0].actions).toEqual([
+      { label: "Undo", onClick: onUndo },
+    ]);
+  });
+
+  it("adds a Retry action to API error toasts", () => {
+    const { result } = renderHook(() => useToast());
+    const onRetry = jest.fn();
+
+    act(() => {
+      result.current.errorFromApi(
+        { message: "Server error", statusCode: 500 },
+        undefined,
+        { onRetry }
+      );
+    });
+
+    const [retry] = result.current.toasts[0].actions ?? [];
+    expect(retry.label).toBe("Retry");
+
+    retry.onClick();
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs onDismiss when an API error toast closes", () => {
+    const { result } = renderHook(() => useToast());
+    const onDismiss = jest.fn();
+
+    let id = "";
+    act(() => {
+      id = result.current.errorFromApi(
+        { message: "Server error", statusCode: 500 },
+        undefined,
+        { onDismiss }
+      );
+    });
+    expect(onDismiss).not.toHaveBeenCalled();
+
+    act(() => {
+      result.current.removeToast(id);
+    });
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+  });
+
+  describe("promise", () => {
+    it("shows a loading toast that turns into a success toast", async () => {
+      const { result } = renderHook(() => useToast());
+      let resolve: (value: number) => void = () => {};
+      const task = new Promise<number>((res) => {
+        resolve = res;
+      });
+
+      let returned: Promise<number> = Promise.resolve(0);
+      act(() => {
+        returned = result.current.promise(task, {
+          loading: "Saving property",
+          success: (value) => ({ title: "Saved!", message: `Saved ${value}` }),
+        });
+      });
+
+      expect(result.current.toasts).toHaveLength(1);
+      expect(result.current.toasts[0]).toMatchObject({
+        type: "loading",
+        message: "Saving property",
+        duration: 0,
+      });
+
+      // Loading toasts stay until the promise settles
+      act(() => {
+        jest.advanceTimersByTime(60000);
+      });
+      expect(result.current.toasts).toHaveLength(1);
+
+      await act(async () => {
+        resolve(42);
+        await expect(returned).resolves.toBe(42);
+      });
+
+      expect(result.current.toasts).toHaveLength(1);
+      expect(result.current.toasts[0]).toMatchObject({
+        type: "success",
+        title: "Saved!",
+        message: "Saved 42",
+      });
+
+      act(() => {
+        jest.advanceTimersByTime(5000);
+      });
+      expect(result.current.toasts).toHaveLength(0);
+    });
+
+    it("uses createErrorNotification for ApiError rejections", async () => {
+      const { result } = renderHook(() => useToast());
+      const apiError = { message: "Internal server error", statusCode: 500 };
+      const task = Promise.reject(apiError);
+
+      await act(async () => {
+        await expect(
+          result.current.promise(task, {
+            loading: "Saving property",
+            success: "Saved",
+          })
+        ).rejects.toBe(apiError);
+      });
+
+      expect(result.current.toasts[0]).toMatchObject({
+        type: "error",
+        title: "Server Error",
+        message: "Server error. Please try again later.",
+      });
+    });
+
+    it("allows overriding the error message", async () => {
+      const { result } = renderHook(() => useToast());
+      const task = Promise.reject({ message: "Not found", statusCode: 404 });
+
+      await act(async () => {
+        await result.current
+          .promise(task, {
+            loading: "Deleting",
+            success: "Deleted",
+            error: "Failed to delete property",
+          })
+          .catch(() => {});
+      });
+
+      expect(result.current.toasts[0]).toMatchObject({
+        type: "warning",
+        title: "Error",
+        message: "Failed to delete property",
+      });
+    });
+  });
+
+  describe("queue", () => {
+    it("queues toasts beyond maxVisible until one closes", () => {
+      const { result } = renderHook(() => useToast({ maxVisible: 2 }));
+
+      let firstId = "";
+      act(() => {
+        firstId = result.current.info("One", "First", 0);
+        result.current.info("Two", "Second", 0);
+        result.current.info("Three", "Third", 0);
+      });
+
+      expect(result.current.toasts.map((t) => t.title)).toEqual(["One", "Two"]);
+      expect(result.current.queuedCount).toBe(1);
+
+      act(() => {
+        result.current.removeToast(firstId);
+      });
+
+      expect(result.current.toasts.map((t) => t.title)).toEqual(["Two", "Three"]);
+      expect(result.current.queuedCount).toBe(0);
+    });
+
+    it("starts the countdown only once a queued toast is shown", () => {
+      const { result } = renderHook(() => useToast({ maxVisible: 1 }));
+
+      let firstId = "";
+      act(() => {
+        firstId = result.current.info("One", "First", 0);
+        result.current.info("Two", "Second", 3000);
+      });
+
+      act(() => {
+        jest.advanceTimersByTime(5000);
+      });
+      expect(result.current.queuedCount).toBe(1);
+
+      act(() => {
+        result.current.removeToast(firstId);
+      });
+      act(() => {
+        jest.advanceTimersByTime(2999);
+      });
+      expect(result.current.toasts[0].title).toBe("Two");
+
+      act(() => {
+        jest.advanceTimersByTime(1);
+      });
+      expect(result.current.toasts).toHaveLength(0);
+    });
+
+    it("collapses identical toasts into one with a counter", () => {
+      const { result } = renderHook(() => useToast());
+
+      let id1 = "";
+      let id2 = "";
+      act(() => {
+        id1 = result.current.error("Error", "Request failed");
+        id2 = result.current.error("Error", "Request failed");
+      });
+
+      expect(id2).toBe(id1);
+      expect(result.current.toasts).toHaveLength(1);
+      expect(result.current.toasts[0].count).toBe(2);
+    });
+
+    it("keeps toasts with actions separate so no callback is lost", () => {
+      const { result } = renderHook(() => useToast());
+      const undoFirst = jest.fn();
+      const undoSecond = jest.fn();
+
+      act(() => {
+        result.current.info("Deleted", '"Villa" was deleted', 5000, {
+          actions: [{ label: "Undo", onClick: undoFirst }],
+        });
+        result.current.info("Deleted", '"Villa" was deleted', 5000, {
+          actions: [{ label: "Undo", onClick: undoSecond }],
+        });
+      });
+
+      expect(result.current.toasts).toHaveLength(2);
+      expect(
+        result.current.toasts.map((toast) => toast.actions?.[0].onClick)
+      ).toEqual([undoFirst, undoSecond]);
+    });
+
+    it("restarts the countdown when a duplicate arrives", () => {
+      const { result } = renderHook(() => useToast());
+
+      act(() => {
+        result.current.error("Error", "Request failed", 3000);
+      });
+      act(() => {
+        jest.advanceTimersByTime(2000);
+        result.current.error("Error", "Request failed", 3000);
+      });
+      act(() => {
+        jest.advanceTimersByTime(2000);
+      });
+
+      expect(result.current.toasts).toHaveLength(1);
+
+      act(() => {
+        jest.advanceTimersByTime(1000);
+      });
+      expect(result.current.toasts).toHaveLength(0);
+    });
+
+    it("keeps duplicates separate when dedupe is disabled", () => {
+      const { result } = renderHook(() => useToast({ dedupe: false }));
+
+      act(() => {
+        result.current.error("Error", "Request failed");
+        result.current.error("Error", "Request failed");
+      });
+
+      expect(result.current.toasts).toHaveLength(2);
+    });
+
+    it("pauses and resumes the countdown with the remaining time", () => {
+      const { result } = renderHook(() => useToast());
+
+      let id = "";
+      act(() => {
+        id = result.current.success("Saved", "Property saved", 3000);
+      });
+      act(() => {
+        jest.advanceTimersByTime(1000);
+        result.current.pauseToast(id);
+      });
+
+      expect(result.current.toasts[0].paused).toBe(true);
+
+      act(() => {
+        jest.advanceTimersByTime(10000);
+      });
+      expect(result.current.toasts).toHaveLength(1);
+
+      act(() => {
+        result.current.resumeToast(id);
+      });
+      act(() => {
+        jest.advanceTimersByTime(1999);
+      });
+      expect(result.current.toasts).toHaveLength(1);
+
+      act(() => {
+        jest.advanceTimersByTime(1);
+      });
+      expect(result.current.toasts).toHaveLength(0);
+    });
+  });
+
+  describe("onDismiss", () => {
+    it("runs once when the toast expires or is removed", () => {
+      const { result } = renderHook(() => useToast());
+      const onExpire = jest.fn();
+      const onClose = jest.fn();
+
+      let closeId = "";
+      act(() => {
+        result.current.info("One", "Expires", 3000, { onDismiss: onExpire });
+        closeId = result.current.info("Two", "Closed", 0, {
+          onDismiss: onClose,
+        });
+      });
+
+      act(() => {
+        jest.advanceTimersByTime(3000);
+        result.current.removeToast(closeId);
+        result.current.removeToast(closeId);
+      });
+
+      expect(onExpire).toHaveBeenCalledTimes(1);
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it("waits while the toast is paused or queued", () => {
+      const { result } = renderHook(() => useToast({ maxVisible: 1 }));
+      const onDismiss = jest.fn();
+
+      let firstId = "";
+      act(() => {
+        firstId = result.current.info("One", "First", 3000);
+        result.current.info("Two", "Second", 3000, { onDismiss });
+        result.current.pauseToast(firstId);
+      });
+      act(() => {
+        jest.advanceTimersByTime(10000);
+      });
+      expect(onDismiss).not.toHaveBeenCalled();
+
+      act(() => {
+        result.current.removeToast(firstId);
+      });
+      act(() => {
+        jest.advanceTimersByTime(3000);
+      });
+      expect(onDismiss).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("onNotify", () => {
+    it("reports shown toasts, including duplicates", () => {
+      const onNotify = jest.fn();
+      const { result } = renderHook(() => useToast({ onNotify }));
+
+      act(() => {
+        result.current.error("Error", "Request failed");
+        result.current.error("Error", "Request failed");
+      });
+
+      expect(onNotify).toHaveBeenCalledTimes(2);
+      expect(onNotify).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: "error", message: "Request failed", count: 2 })
+      );
+    });
+
+    it("reports promise toasts once they settle", async () => {
+      const onNotify = jest.fn();
+      const { result } = renderHook(() => useToast({ onNotify }));
+
+      await act(async () => {
+        await result.current.promise(Promise.resolve(1), {
+          loading: "Saving",
+          success: "Saved",
+        });
+      });
+
+      expect(onNotify).toHaveBeenCalledTimes(1);
+      expect(onNotify).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "success", message: "Saved" })
+      );
+    });
+  });
+
   it("generates unique IDs for toasts", () => {
     const { result } = renderHook(() => useToast());
 
@@ -0,0 +1,118 @@
+import { renderHook, act } from "@testing-library/react";
+import { useUndoQueue } from "../useUndoQueue";
+
+describe("useUndoQueue", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("commits the action once the delay has passed", () => {
+    const commit = jest.fn();
+    const { result } = renderHook(() => useUndoQueue({ delayMs: 5000 }));
+
+    act(() => {
+      result.current.schedule("1", commit);
+    });
+
+    act(() => {
+      jest.advanceTimersByTime(4999);
+    });
+    expect(commit).not.toHaveBeenCalled();
+    expect(result.current.isPending("1")).toBe(true);
+
+    act(() => {
+      jest.advanceTimersByTime(1);
+    });
+    expect(commit).toHaveBeenCalledTimes(1);
+    expect(result.current.isPending("1")).toBe(false);
+  });
+
+  it("cancels the action on undo", () => {
+    const commit = jest.fn();
+    const { result } = renderHook(() => useUndoQueue({ delayMs: 5000 }));
+
+    act(() => {
+      result.current.schedule("1", commit);
+    });
+
+    let undone = false;
+    act(() => {
+      undone = result.current.undo("1");
+    });
+    act(() => {
+      jest.advanceTimersByTime(5000);
+    });
+
+    expect(undone).toBe(true);
+    expect(commit).not.toHaveBeenCalled();
+  });
+
+  it("cannot undo an action that already ran", () => {
+    const { result } = renderHook(() => useUndoQueue({ delayMs: 1000 }));
+
+    act(() => {
+      result.current.schedule("1", jest.fn());
+      jest.advanceTimersByTime(1000);
+    });
+
+    expect(result.current.undo("1")).toBe(false);
+  });
+
+  it("flushes pending actions when the page is hidden", () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const { result } = renderHook(() => useUndoQueue());
+
+    act(() => {
+      result.current.schedule("1", first);
+      result.current.schedule("2", second);
+    });
+
+    act(() => {
+      window.dispatchEvent(new Event("pagehide"));
+    });
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+
+    // Timers no longer fire a second commit
+    act(() => {
+      jest.runAllTimers();
+    });
+    expect(first).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves the timing to the caller without a delay", () => {
+    const commit = jest.fn();
+    const { result } = renderHook(() => useUndoQueue({ delayMs: null }));
+
+    act(() => {
+      result.current.schedule("1", commit);
+      jest.runAllTimers();
+    });
+    expect(commit).not.toHaveBeenCalled();
+
+    act(() => {
+      result.current.commit("1");
+      result.current.commit("1");
+    });
+    expect(commit).toHaveBeenCalledTimes(1);
+    expect(result.current.isPending("1")).toBe(false);
+  });
+
+  it("flushes pending actions on unmount", () => {
+    const commit = jest.fn();
+    const { result, unmount } = renderHook(() => useUndoQueue());
+
+    act(() => {
+      result.current.schedule("1", commit);
+    });
+    unmount();
+
+    expect(commit).toHaveBeenCalledTimes(1);
+  });
+});
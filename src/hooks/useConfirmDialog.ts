@@ -0,0 +1,44 @@
+/**
+ * Confirm Dialog Hook
+ * Promise-based state behind ConfirmDialog; shared app-wide via ConfirmProvider
+ */
+
+"use client";
+
+import { useState, useCallback, useRef, useEffect } from "react";
+import type { ConfirmOptions } from "@/components/ConfirmDialog";
+
+export interface ConfirmRequest {
+  id: number; // new per request, so the dialog resets between them
+  options: ConfirmOptions;
+}
+
+let requestCounter = 0;
+
+export function useConfirmDialog() {
+  const [request, setRequest] = useState<ConfirmRequest | null>(null);
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  const settle = useCallback((confirmed: boolean) => {
+    resolveRef.current?.(confirmed);
+    resolveRef.current = null;
+    setRequest(null);
+  }, []);
+
+  /**
+   * Open the dialog; resolves true on confirm and false on cancel
+   * A second request cancels the one still open
+   */
+  const confirm = useCallback((next: ConfirmOptions) => {
+    resolveRef.current?.(false);
+    setRequest({ id: ++requestCounter, options: next });
+    return new Promise<boolean>((resolve) => {
+      resolveRef.current = resolve;
+    });
+  }, []);
+
+  // Never leave a caller waiting after unmount
+  useEffect(() => () => resolveRef.current?.(false), []);
+
+  return { request, confirm, settle };
+}
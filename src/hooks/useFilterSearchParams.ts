@@ -0,0 +1,96 @@
+/**
+ * Filter <-> URL Sync Hook
+ * Keeps the PropertyFilter in the query string so searches survive a refresh
+ * and can be bookmarked or shared
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { usePathname, useSearchParams } from "next/navigation";
+import { PropertyFilter } from "@/types";
+import {
+  buildPropertySearchParams,
+  parsePropertySearchParams,
+} from "@/lib/api/propertyQuery";
+
+export type HistoryMode = "push" | "replace";
+
+// Fields edited by typing; changing only these should not flood the history
+const TEXT_FIELDS: (keyof PropertyFilter)[] = [
+  "name",
+  "address",
+  "priceMin",
+  "priceMax",
+];
+
+/**
+ * Replace while typing, push for discrete changes (pills, status, clear all)
+ */
+function inferHistoryMode(
+  prev: PropertyFilter,
+  next: PropertyFilter
+): HistoryMode {
+  const keys = new Set([
+    ...Object.keys(prev),
+    ...Object.keys(next),
+  ]) as Set<keyof PropertyFilter>;
+  const changed = [...keys].filter(
+    (key) => (prev[key] ?? null) !== (next[key] ?? null)
+  );
+  const isTyping =
+    changed.length > 0 && changed.every((key) => TEXT_FIELDS.includes(key));
+  const isCleared = buildPropertySearchParams(next).toString() === "";
+
+  return isTyping && !isCleared ? "replace" : "push";
+}
+
+export function useFilterSearchParams() {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // Hydrate from the URL on load
+  const [filter, setFilterState] = useState<PropertyFilter>(
+    () =>
+      parsePropertySearchParams(new URLSearchParams(searchParams.toString()))
+        .filters
+  );
+  // Latest filter, read when deciding between push and replace
+  const filterRef = useRef(filter);
+
+  // Back/forward navigation restores the filter from the URL
+  useEffect(() => {
+    const onPopState = () => {
+      const restored = parsePropertySearchParams(
+        new URLSearchParams(window.location.search)
+      ).filters;
+      filterRef.current = restored;
+      setFilterState(restored);
+    };
+
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  const setFilter = useCallback(
+    (next: PropertyFilter, mode?: HistoryMode) => {
+      const query = buildPropertySearchParams(next).toString();
+      const url = query ? `${pathname}?${query}` : pathname;
+      const historyMode = mode ?? inferHistoryMode(filterRef.current, next);
+
+      filterRef.current = next;
+      setFilterState(next);
+
+      // The History API updates useSearchParams without a router navigation,
+      // so typing never triggers a server round-trip
+      if (historyMode === "replace") {
+        window.history.replaceState(null, "", url);
+      } else {
+        window.history.pushState(null, "", url);
+      }
+    },
+    [pathname]
+  );
+
+  return [filter, setFilter] as const;
+}
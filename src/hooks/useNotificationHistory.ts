@@ -0,0 +1,87 @@
+/**
+ * Notification History Hook
+ * Records every notification raised this session, with read/unread state
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  MAX_NOTIFICATION_HISTORY,
+  NotificationRecord,
+  NotificationType,
+  loadNotificationHistory,
+  saveNotificationHistory,
+} from "@/lib/storage/notificationHistoryStorage";
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+}
+
+let notificationCounter = 0;
+
+export function useNotificationHistory() {
+  const [notifications, setNotifications] = useState<NotificationRecord[]>([]);
+  // sessionStorage is only read after mount so server and client markup match
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  useEffect(() => {
+    const stored = loadNotificationHistory();
+    const storedIds = new Set(stored.map((item) => item.id));
+    // Keep anything recorded before hydration finished
+    setNotifications((prev) =>
+      [...prev.filter((item) => !storedIds.has(item.id)), ...stored].slice(
+        0,
+        MAX_NOTIFICATION_HISTORY
+      )
+    );
+    setIsHydrated(true);
+  }, []);
+
+  useEffect(() => {
+    if (isHydrated) saveNotificationHistory(notifications);
+  }, [notifications, isHydrated]);
+
+  const record = useCallback((input: NotificationInput) => {
+    const entry: NotificationRecord = {
+      ...input,
+      id: `notification-${Date.now()}-${++notificationCounter}`,
+      createdAt: new Date().toISOString(),
+      read: false,
+    };
+    setNotifications((prev) =>
+      [entry, ...prev].slice(0, MAX_NOTIFICATION_HISTORY)
+    );
+  }, []);
+
+  const markRead = useCallback((id: string) => {
+    setNotifications((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, read: true } : item))
+    );
+  }, []);
+
+  const markAllRead = useCallback(() => {
+    setNotifications((prev) =>
+      prev.some((item) => !item.read)
+        ? prev.map((item) => ({ ...item, read: true }))
+        : prev
+    );
+  }, []);
+
+  const clearAll = useCallback(() => {
+    setNotifications([]);
+  }, []);
+
+  const unreadCount = notifications.filter((item) => !item.read).length;
+
+  return {
+    notifications,
+    unreadCount,
+    record,
+    markRead,
+    markAllRead,
+    clearAll,
+  };
+}
@@ -8,62 +8,175 @@
 import { useState, useEffect, useRef } from "react";
 import { Property, PropertyInput, PropertyFilter, Category } from "@/types";
 import { propertyApi } from "@/lib/api/propertyService";
-import { ApiError } from "@/lib/api/types";
+import { sortProperties } from "@/lib/api/propertyQuery";
+import {
+  CATEGORIES_KEY,
+  applyPropertyDeletion,
+  applyPropertyUpdate,
+  categoriesCache,
+  getPropertyListKey,
+  invalidatePropertyLists,
+  propertyListCache,
+  readThrough,
+} from "@/lib/api/queryCache";
+import { API_CONFIG } from "@/lib/api/config";
+import { ApiError, PaginatedResponse } from "@/lib/api/types";
+import { isAbortError } from "@/lib/utils/errorHandler";
+import { BulkOptions, runBulk } from "@/lib/utils/bulkOperations";
+import {
+  createOptimisticProperty,
+  isTempId,
+  removeById,
+  replaceById,
+  restoreAt,
+  revertItem,
+} from "@/lib/utils/optimisticUpdates";
+import { useUndoQueue } from "./useUndoQueue";
 
 export interface UsePropertiesOptions {
   debounceMs?: number;
+  pageSize?: number;
+  // Also called when an optimistic change is rolled back, e.g. toast.errorFromApi
   onError?: (error: ApiError) => void;
   onSuccess?: (message: string) => void;
 }
 
+export type PaginationState = Omit<PaginatedResponse<Property>, "data">;
+
+export interface ScheduleDeleteOptions {
+  // `retry` hides the property again and sends the delete right away
+  onError?: (error: ApiError, retry: () => void) => void;
+}
+
+export interface PendingDelete {
+  property: Property;
+  undo: () => void;
+  // Send the request now instead of waiting
+  commit: () => void;
+}
+
+/**
+ * Listing state for a filter owned by the caller (e.g. the URL)
+ * Changing `filter` reloads the first page after `debounceMs`
+ */
 export function useProperties(
-  initialFilter: PropertyFilter = {},
+  filter: PropertyFilter = {},
   options: UsePropertiesOptions = {}
 ) {
-  const { debounceMs = 500, onError, onSuccess } = options;
+  const {
+    debounceMs = 500,
+    pageSize = API_CONFIG.defaultPageSize,
+    onError,
+    onSuccess,
+  } = options;
 
   const [properties, setProperties] = useState<Property[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
-  const [filter, setFilter] = useState<PropertyFilter>(initialFilter);
   const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<ApiError | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [pagination, setPagination] = useState<PaginationState>({
+    pageNumber: 1,
+    pageSize,
+    totalPages: 1,
+    totalRecords: 0,
+  });
 
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const pendingMutationsRef = useRef(0);
+  // Deletes waiting out their undo window; the caller decides when they are sent
+  const pendingDeletes = useUndoQueue({ delayMs: null });
+  // Reload only when the query changes, not when the caller passes a new object
+  const filterKey = getPropertyListKey(filter);
+
+  // Cancel the in-flight request, if any
+  const abortPending = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+  };
+
+  const applyPage = ({ data, ...pageInfo }: PaginatedResponse<Property>) => {
+    // Deletions waiting out their undo window stay hidden across reloads
+    const visible = data.filter((p) => !pendingDeletes.isPending(p.id));
+    const hidden = data.length - visible.length;
+    setProperties(visible);
+    setPagination({
+      ...pageInfo,
+      totalRecords: Math.max(0, pageInfo.totalRecords - hidden),
+    });
+  };
 
   // Load properties and categories
-  const loadData = async () => {
+  const loadData = async (pageNumber: number = pagination.pageNumber) => {
+    // Only the latest request may update state
+    abortPending();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const filters: PropertyFilter = {
+      name: filter.name || undefined,
+      address: filter.address || undefined,
+      priceMin: filter.priceMin ?? undefined,
+      priceMax: filter.priceMax ?? undefined,
+      type: filter.type || undefined,
+      active: filter.active ?? undefined,
+      sortBy: filter.sortBy ?? undefined,
+      sortDir: filter.sortDir ?? undefined,
+    };
+    const page = { pageNumber, pageSize };
+
     try {
-      setIsLoading(true);
-
-      const [propertiesData, categoriesData] = await Promise.all([
-        propertyApi.getProperties({
-          name: filter.name || undefined,
-          address: filter.address || undefined,
-          priceMin: filter.priceMin ?? undefined,
-          priceMax: filter.priceMax ?? undefined,
-          type: filter.type || undefined,
-          active: filter.active ?? undefined,
-        }),
-        categories.length > 0
-          ? Promise.resolve(categories)
-          : propertyApi.getCategories(),
-      ]);
+      setError(null);
+
+      const list = readThrough(
+        propertyListCache,
+        getPropertyListKey(filters, page),
+        () =>
+          propertyApi.getProperties(filters, page, {
+            signal: controller.signal,
+          })
+      );
+      const categoryList = readThrough(categoriesCache, CATEGORIES_KEY, () =>
+        propertyApi.getCategories({ signal: controller.signal })
+      );
 
-      setProperties(propertiesData);
-      if (categories.length === 0) {
-        setCategories(categoriesData);
+      // Show cached results right away, revalidating in the background
+      if (list.cached) {
+        applyPage(list.cached);
       }
+      if (categoryList.cached) {
+        setCategories(categoryList.cached);
+      }
+      setIsLoading(!list.cached);
+
+      const [propertiesPage, categoriesData] = await Promise.all([
+        list.result,
+        categoryList.result,
+      ]);
+
+      applyPage(propertiesPage);
+      setCategories(categoriesData);
     } catch (err) {
+      // Superseded or unmounted, not an error
+      if (isAbortError(err)) {
+        return;
+      }
       const apiError = err as ApiError;
+      setError(apiError);
       onError?.(apiError);
     } finally {
-      setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+      }
     }
   };
 
   // Initial load
   useEffect(() => {
     loadData();
+    return abortPending;
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -74,61 +187,261 @@ export function useProperties(
     }
 
     debounceTimerRef.current = setTimeout(() => {
-      loadData();
+      loadData(1);
     }, debounceMs);
 
     return () => {
       if (debounceTimerRef.current) {
         clearTimeout(debounceTimerRef.current);
       }
+      // Results for the old filter are no longer wanted
+      abortPending();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filter]);
+  }, [filterKey]);
+
+  // A page emptied by deletes falls back to the previous one
+  useEffect(() => {
+    if (!isLoading && !error && properties.length === 0 && pagination.pageNumber > 1) {
+      loadData(pagination.pageNumber - 1);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoading, error, properties.length, pagination.pageNumber]);
 
-  // Create property
+  // Keep totals in sync after local mutations
+  const adjustTotalRecords = (delta: number) => {
+    setPagination((prev) => {
+      const totalRecords = Math.max(0, prev.totalRecords + delta);
+      return {
+        ...prev,
+        totalRecords,
+        totalPages: Math.max(1, Math.ceil(totalRecords / prev.pageSize)),
+      };
+    });
+  };
+
+  // Track overlapping mutations so isSubmitting stays true until all settle
+  const beginSubmit = () => {
+    pendingMutationsRef.current += 1;
+    setIsSubmitting(true);
+  };
+
+  const endSubmit = () => {
+    pendingMutationsRef.current -= 1;
+    setIsSubmitting(pendingMutationsRef.current > 0);
+  };
+
+  // Create property - shown immediately under a temporary ID
   const createProperty = async (input: PropertyInput) => {
+    const optimistic = createOptimisticProperty(input);
+
+    beginSubmit();
+    setProperties((prev) => sortProperties([optimistic, ...prev], filter));
+    adjustTotalRecords(1);
+
     try {
-      setIsSubmitting(true);
       const newProperty = await propertyApi.createProperty(input);
-      setProperties((prev) => [newProperty, ...prev]);
+      // Swap in the server copy, placed where the active sort puts it
+      setProperties((prev) =>
+        sortProperties(replaceById(prev, optimistic.id, newProperty), filter).slice(
+          0,
+          pageSize
+        )
+      );
+      invalidatePropertyLists();
       onSuccess?.("Property created successfully");
       return newProperty;
     } catch (err) {
+      setProperties((prev) => removeById(prev, optimistic.id));
+      adjustTotalRecords(-1);
       const apiError = err as ApiError;
       onError?.(apiError);
       throw apiError;
     } finally {
-      setIsSubmitting(false);
+      endSubmit();
     }
   };
 
-  // Update property
+  // Update property - changes are applied before the server confirms them
   const updateProperty = async (id: string, input: Partial<PropertyInput>) => {
+    const previous = properties.find((p) => p.id === id);
+    const optimistic = previous ? { ...previous, ...input } : undefined;
+
+    beginSubmit();
+    if (optimistic) {
+      setProperties((prev) =>
+        sortProperties(replaceById(prev, id, optimistic), filter)
+      );
+    }
+
     try {
-      setIsSubmitting(true);
       const updated = await propertyApi.updateProperty(id, input);
-      setProperties((prev) => prev.map((p) => (p.id === id ? updated : p)));
+      setProperties((prev) =>
+        sortProperties(replaceById(prev, id, updated), filter)
+      );
+      applyPropertyUpdate(updated);
       onSuccess?.("Property updated successfully");
       return updated;
     } catch (err) {
+      if (previous && optimistic) {
+        setProperties((prev) =>
+          sortProperties(revertItem(prev, optimistic, previous), filter)
+        );
+      }
       const apiError = err as ApiError;
       onError?.(apiError);
       throw apiError;
     } finally {
-      setIsSubmitting(false);
+      endSubmit();
     }
   };
 
-  // Delete property
+  /**
+   * Take a property out of the list; returns a function that puts it back
+   * The position is read inside the updater, so overlapping removals each
+   * restore against the list as it was when they ran
+   */
+  const hideProperty = (id: string) => {
+    let removed: { property: Property; index: number } | undefined;
+
+    setProperties((prev) => {
+      const index = prev.findIndex((p) => p.id === id);
+      if (index === -1) return prev;
+      removed = { property: prev[index], index };
+      return removeById(prev, id);
+    });
+    adjustTotalRecords(-1);
+
+    return () => {
+      setProperties((prev) =>
+        removed
+          ? sortProperties(restoreAt(prev, removed.property, removed.index), filter)
+          : prev
+      );
+      adjustTotalRecords(1);
+    };
+  };
+
+  // Delete property - the card disappears right away
   const deleteProperty = async (id: string) => {
+    const restore = hideProperty(id);
+
+    beginSubmit();
     try {
       await propertyApi.deleteProperty(id);
-      setProperties((prev) => prev.filter((p) => p.id !== id));
+      applyPropertyDeletion(id);
       onSuccess?.("Property deleted successfully");
     } catch (err) {
+      restore();
       const apiError = err as ApiError;
       onError?.(apiError);
       throw apiError;
+    } finally {
+      endSubmit();
+    }
+  };
+
+  /**
+   * Delete with an undo window: the card is hidden now and the request waits
+   * until commit() (or the page is left); undo() puts the card back
+   * Returns null for unsaved properties and deletes already pending
+   */
+  const scheduleDelete = (
+    id: string,
+    { onError: onDeleteError }: ScheduleDeleteOptions = {}
+  ): PendingDelete | null => {
+    const property = properties.find((p) => p.id === id);
+    if (!property || isTempId(id) || pendingDeletes.isPending(id)) {
+      return null;
+    }
+
+    const hold = (): PendingDelete => {
+      const restore = hideProperty(id);
+
+      pendingDeletes.schedule(id, async () => {
+        beginSubmit();
+        try {
+          // keepalive lets the request finish when it is sent on pagehide
+          await propertyApi.deleteProperty(id, { keepalive: true });
+          applyPropertyDeletion(id);
+          onSuccess?.("Property deleted successfully");
+        } catch (err) {
+          restore();
+          const apiError = err as ApiError;
+          onError?.(apiError);
+          onDeleteError?.(apiError, () => hold().commit());
+        } finally {
+          endSubmit();
+        }
+      });
+
+      return {
+        property,
+        undo: () => {
+          if (pendingDeletes.undo(id)) restore();
+        },
+        commit: () => pendingDeletes.commit(id),
+      };
+    };
+
+    return hold();
+  };
+
+  /**
+   * Update every listed property with bounded concurrency
+   * Never rejects; the result lists which properties failed
+   */
+  const updateMany = async (
+    ids: string[],
+    input: Partial<PropertyInput>,
+    bulkOptions: BulkOptions = {}
+  ) => {
+    const targets = properties.filter((p) => ids.includes(p.id));
+
+    beginSubmit();
+    try {
+      const result = await runBulk(
+        targets,
+        (property) => propertyApi.updateProperty(property.id, input),
+        { concurrency: API_CONFIG.bulkConcurrency, ...bulkOptions }
+      );
+      setProperties((prev) =>
+        sortProperties(
+          result.succeeded.reduce(
+            (list, { value }) => replaceById(list, value.id, value),
+            prev
+          ),
+          filter
+        )
+      );
+      result.succeeded.forEach(({ value }) => applyPropertyUpdate(value));
+      return result;
+    } finally {
+      endSubmit();
+    }
+  };
+
+  /**
+   * Delete every listed property without an undo window, then refill the page
+   */
+  const deleteMany = async (ids: string[], bulkOptions: BulkOptions = {}) => {
+    const targets = properties.filter((p) => ids.includes(p.id));
+
+    beginSubmit();
+    try {
+      const result = await runBulk(
+        targets,
+        (property) => propertyApi.deleteProperty(property.id),
+        { concurrency: API_CONFIG.bulkConcurrency, ...bulkOptions }
+      );
+      const deleted = new Set(result.succeeded.map(({ item }) => item.id));
+      setProperties((prev) => prev.filter((p) => !deleted.has(p.id)));
+      adjustTotalRecords(-deleted.size);
+      deleted.forEach((id) => applyPropertyDeletion(id));
+      loadData();
+      return result;
+    } finally {
+      endSubmit();
     }
   };
 
@@ -137,8 +450,17 @@ export function useProperties(
     return properties.find((p) => p.id === id);
   };
 
-  // Refresh data
+  // Change page (no debounce, the user asked for it explicitly)
+  const setPage = (pageNumber: number) => {
+    const target = Math.min(Math.max(1, pageNumber), pagination.totalPages);
+    setPagination((prev) => ({ ...prev, pageNumber: target }));
+    return loadData(target);
+  };
+
+  // Refresh data, bypassing fresh cache entries
   const refresh = () => {
+    propertyListCache.invalidate();
+    categoriesCache.invalidate();
     return loadData();
   };
 
@@ -146,15 +468,20 @@ export function useProperties(
     // State
     properties,
     categories,
-    filter,
     isLoading,
     isSubmitting,
+    error,
+    pagination,
 
     // Actions
-    setFilter,
+    setPage,
     createProperty,
     updateProperty,
     deleteProperty,
+    scheduleDelete,
+    isDeletePending: pendingDeletes.isPending,
+    updateMany,
+    deleteMany,
     getPropertyById,
     refresh,
   };
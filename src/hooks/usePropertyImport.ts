@@ -0,0 +1,84 @@
+/**
+ * Property Import Hook
+ * Creates validated import rows through propertyApi with bounded concurrency,
+ * progress and cancellation
+ */
+
+"use client";
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import { Property, PropertyInput } from "@/types";
+import { propertyApi } from "@/lib/api/propertyService";
+import { API_CONFIG } from "@/lib/api/config";
+import { invalidatePropertyLists } from "@/lib/api/queryCache";
+import { runBulk } from "@/lib/utils/bulkOperations";
+import { ImportFailure, ImportRow } from "@/lib/utils/propertyImport";
+import type { BulkProgress } from "@/components/BulkActionBar";
+
+export interface ImportResult {
+  created: Property[];
+  failed: ImportFailure[];
+  skipped: ImportRow[]; // not sent because the import was cancelled
+  cancelled: boolean;
+}
+
+export function usePropertyImport() {
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop sending rows if the screen is left mid-import
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  /**
+   * Rows must already be valid; each one becomes a createProperty call
+   */
+  const start = useCallback(async (rows: ImportRow[]) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setResult(null);
+    setProgress({ completed: 0, total: rows.length });
+
+    const { succeeded, failed, skipped } = await runBulk(
+      rows,
+      (row) => propertyApi.createProperty(row.input as PropertyInput),
+      {
+        concurrency: API_CONFIG.bulkConcurrency,
+        onProgress: (completed, total) => setProgress({ completed, total }),
+        signal: controller.signal,
+      }
+    );
+
+    if (succeeded.length > 0) {
+      invalidatePropertyLists();
+    }
+
+    const next: ImportResult = {
+      created: succeeded.map(({ value }) => value),
+      failed: failed.map(({ item, error }) => ({ row: item, reason: error.message })),
+      skipped,
+      cancelled: controller.signal.aborted,
+    };
+    controllerRef.current = null;
+    setProgress(null);
+    setResult(next);
+    return next;
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    setResult(null);
+  }, []);
+
+  return {
+    progress,
+    result,
+    isRunning: progress !== null,
+    start,
+    cancel,
+    reset,
+  };
+}
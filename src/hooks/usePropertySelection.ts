@@ -0,0 +1,74 @@
+/**
+ * Property Selection Hook
+ * Checkbox selection over the properties on the current page, with
+ * shift-click range selection and select all
+ */
+
+"use client";
+
+import { useState, useCallback, useMemo, useRef } from "react";
+
+export function usePropertySelection(ids: string[]) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  // Last item clicked without shift; ranges extend from here
+  const anchorRef = useRef<string | null>(null);
+
+  // Only ids still on the page count, so paging or deleting drops them
+  const selectedIds = useMemo(
+    () => ids.filter((id) => selected.has(id)),
+    [ids, selected]
+  );
+
+  const isSelected = useCallback((id: string) => selected.has(id), [selected]);
+
+  /**
+   * Toggle one item; with `range`, apply its new state to every item
+   * between it and the anchor
+   */
+  const toggle = useCallback(
+    (id: string, range: boolean = false) => {
+      const select = !selected.has(id);
+      const anchorIndex = anchorRef.current ? ids.indexOf(anchorRef.current) : -1;
+      const index = ids.indexOf(id);
+
+      const affected =
+        range && anchorIndex !== -1 && index !== -1
+          ? ids.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+          : [id];
+
+      const next = new Set(selected);
+      affected.forEach((item) => (select ? next.add(item) : next.delete(item)));
+      setSelected(next);
+
+      if (!range) anchorRef.current = id;
+    },
+    [ids, selected]
+  );
+
+  const selectAll = useCallback(() => {
+    setSelected(new Set(ids));
+  }, [ids]);
+
+  const clear = useCallback(() => {
+    setSelected(new Set());
+    anchorRef.current = null;
+  }, []);
+
+  const deselect = useCallback((removed: string[]) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      removed.forEach((id) => next.delete(id));
+      return next;
+    });
+  }, []);
+
+  return {
+    selectedIds,
+    isSelected,
+    allSelected: ids.length > 0 && selectedIds.length === ids.length,
+    toggle,
+    selectAll,
+    clear,
+    deselect,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Saved Searches Hook
+ * Loads and manages named filter presets through a SavedSearchStorage
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { PropertyFilter, SavedSearch } from "@/types";
+import {
+  SavedSearchStorage,
+  savedSearchStorage,
+} from "@/lib/storage/savedSearchStorage";
+
+interface UseSavedSearchesOptions {
+  storage?: SavedSearchStorage;
+  onError?: (error: Error) => void;
+}
+
+export function useSavedSearches(options: UseSavedSearchesOptions = {}) {
+  const { storage = savedSearchStorage, onError } = options;
+
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    storage
+      .list()
+      .then((list) => {
+        if (!cancelled) setSearches(list);
+      })
+      .catch((error: Error) => {
+        if (!cancelled) onError?.(error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [storage]);
+
+  const saveSearch = useCallback(
+    async (name: string, filter: PropertyFilter) => {
+      try {
+        const search = await storage.create(name, filter);
+        setSearches((prev) => [...prev, search]);
+        return search;
+      } catch (error) {
+        onError?.(error as Error);
+        throw error;
+      }
+    },
+    [storage, onError]
+  );
+
+  const renameSearch = useCallback(
+    async (id: string, name: string) => {
+      try {
+        const updated = await storage.update(id, { name });
+        setSearches((prev) =>
+          prev.map((search) => (search.id === id ? updated : search))
+        );
+        return updated;
+      } catch (error) {
+        onError?.(error as Error);
+        throw error;
+      }
+    },
+    [storage, onError]
+  );
+
+  const deleteSearch = useCallback(
+    async (id: string) => {
+      try {
+        await storage.remove(id);
+        setSearches((prev) => prev.filter((search) => search.id !== id));
+      } catch (error) {
+        onError?.(error as Error);
+        throw error;
+      }
+    },
+    [storage, onError]
+  );
+
+  return {
+    searches,
+    isLoading,
+    saveSearch,
+    renameSearch,
+    deleteSearch,
+  };
+}
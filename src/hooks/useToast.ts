@@ -1,15 +1,63 @@
 /**
  * Toast Notification Hook
  * Replaces alert() with user-friendly notifications
+ * Shows a limited number at once, queues the rest and collapses duplicates
  */
 
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { ApiError } from "@/lib/api/types";
-import { createErrorNotification } from "@/lib/utils/errorHandler";
+import {
+  createErrorNotification,
+  parseError,
+} from "@/lib/utils/errorHandler";
 
-export type ToastType = "success" | "error" | "warning" | "info";
+export type ToastType = "success" | "error" | "warning" | "info" | "loading";
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+  dismissOnClick?: boolean; // defaults to true
+}
+
+export interface ToastOptions {
+  actions?: ToastAction[];
+  // Runs once when the toast leaves: expiry, close button, Escape or an action
+  onDismiss?: () => void;
+}
+
+export interface ErrorToastOptions extends ToastOptions {
+  // Adds a "Retry" action that re-runs the failed operation
+  onRetry?: () => void;
+}
+
+export interface ToastContent {
+  title?: string;
+  message?: string;
+  actions?: ToastAction[];
+}
+
+// A string is used as the message
+type PromiseToastContent<V> =
+  | string
+  | ToastContent
+  | ((value: V) => string | ToastContent);
+
+export interface PromiseToastMessages<T> {
+  loading: string | ToastContent;
+  success: PromiseToastContent<T>;
+  // Titles and messages default to createErrorNotification for the rejection
+  error?: PromiseToastContent<unknown>;
+}
+
+function resolveContent<V>(
+  content: PromiseToastContent<V> | undefined,
+  value: V
+): ToastContent {
+  const resolved = typeof content === "function" ? content(value) : content;
+  return typeof resolved === "string" ? { message: resolved } : resolved ?? {};
+}
 
 export interface Toast {
   id: string;
@@ -17,87 +65,350 @@ export interface Toast {
   title: string;
   message: string;
   duration?: number;
+  actions?: ToastAction[];
+  onDismiss?: () => void;
+  count?: number; // how many identical toasts were collapsed into this one
+  paused?: boolean;
+}
+
+export interface UseToastOptions {
+  maxVisible?: number; // overflow is queued until a visible toast closes
+  dedupe?: boolean; // collapse identical toasts into one with a counter
+  // Called for every notification shown, including collapsed duplicates;
+  // loading toasts are reported once they settle
+  onNotify?: (toast: Toast) => void;
+}
+
+interface ToastTimer {
+  timeout?: ReturnType<typeof setTimeout>;
+  remaining: number;
+  startedAt: number;
 }
 
+// Toasts with actions never collapse, so no callback (e.g. an Undo) is lost
+const isDuplicate = (
+  toast: Toast,
+  type: ToastType,
+  title: string,
+  message: string,
+  options: ToastOptions
+) =>
+  toast.type !== "loading" &&
+  !toast.actions?.length &&
+  !toast.onDismiss &&
+  !options.actions?.length &&
+  !options.onDismiss &&
+  toast.type === type &&
+  toast.title === title &&
+  toast.message === message;
+
 let toastCounter = 0;
 
-export function useToast() {
-  const [toasts, setToasts] = useState<Toast[]>([]);
+export function useToast(options: UseToastOptions = {}) {
+  const { maxVisible = 3, dedupe = true, onNotify } = options;
+  const [allToasts, setAllToasts] = useState<Toast[]>([]);
+  // Source of truth, so calls made in the same tick see each other
+  const toastsRef = useRef<Toast[]>([]);
+  const timersRef = useRef(new Map<string, ToastTimer>());
+  const onNotifyRef = useRef(onNotify);
+
+  useEffect(() => {
+    onNotifyRef.current = onNotify;
+  }, [onNotify]);
+
+  const notify = useCallback((toast: Toast) => {
+    if (toast.type !== "loading") onNotifyRef.current?.(toast);
+  }, []);
+
+  const commit = useCallback((next: Toast[]) => {
+    toastsRef.current = next;
+    setAllToasts(next);
+  }, []);
 
-  const removeToast = useCallback((id: string) => {
-    setToasts((prev) => prev.filter((toast) => toast.id !== id));
+  const clearTimer = useCallback((id: string) => {
+    clearTimeout(timersRef.current.get(id)?.timeout);
+    timersRef.current.delete(id);
   }, []);
 
+  const removeToast = useCallback(
+    (id: string) => {
+      const removed = toastsRef.current.find((toast) => toast.id === id);
+      clearTimer(id);
+      commit(toastsRef.current.filter((toast) => toast.id !== id));
+      removed?.onDismiss?.();
+    },
+    [clearTimer, commit]
+  );
+
+  const runTimer = useCallback(
+    (id: string, timer: ToastTimer) => {
+      timer.startedAt = Date.now();
+      timer.timeout = setTimeout(() => removeToast(id), timer.remaining);
+    },
+    [removeToast]
+  );
+
+  const toasts = useMemo(
+    () => allToasts.slice(0, maxVisible),
+    [allToasts, maxVisible]
+  );
+  const queuedCount = allToasts.length - toasts.length;
+
+  // Countdowns start once a toast is on screen, not while it is queued
+  useEffect(() => {
+    for (const toast of toasts) {
+      if (!toast.duration || toast.duration <= 0) continue;
+      if (timersRef.current.has(toast.id)) continue;
+
+      const timer: ToastTimer = { remaining: toast.duration, startedAt: 0 };
+      timersRef.current.set(toast.id, timer);
+      if (!toast.paused) runTimer(toast.id, timer);
+    }
+  }, [toasts, runTimer]);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer.timeout));
+      timers.clear();
+    };
+  }, []);
+
+  const setPaused = useCallback(
+    (id: string, paused: boolean) => {
+      commit(
+        toastsRef.current.map((toast) =>
+          toast.id === id ? { ...toast, paused } : toast
+        )
+      );
+    },
+    [commit]
+  );
+
+  /**
+   * Stop the countdown, e.g. while the toast is hovered or focused
+   */
+  const pauseToast = useCallback(
+    (id: string) => {
+      const timer = timersRef.current.get(id);
+      if (timer?.timeout !== undefined) {
+        clearTimeout(timer.timeout);
+        timer.timeout = undefined;
+        timer.remaining -= Date.now() - timer.startedAt;
+      }
+      setPaused(id, true);
+    },
+    [setPaused]
+  );
+
+  const resumeToast = useCallback(
+    (id: string) => {
+      const timer = timersRef.current.get(id);
+      if (timer && timer.timeout === undefined) {
+        runTimer(id, timer);
+      }
+      setPaused(id, false);
+    },
+    [runTimer, setPaused]
+  );
+
   const addToast = useCallback(
     (
       type: ToastType,
       title: string,
       message: string,
-      duration: number = 5000
+      duration: number = 5000,
+      options: ToastOptions = {}
     ) => {
-      const id = `toast-${++toastCounter}`;
-      const toast: Toast = { id, type, title, message, duration };
-
-      setToasts((prev) => [...prev, toast]);
+      const existing = dedupe
+        ? toastsRef.current.find((toast) =>
+            isDuplicate(toast, type, title, message, options)
+          )
+        : undefined;
 
-      if (duration > 0) {
-        setTimeout(() => removeToast(id), duration);
+      // Bump the counter, take the latest actions and restart the countdown
+      if (existing) {
+        const merged: Toast = {
+          ...existing,
+          duration,
+          actions: options.actions,
+          count: (existing.count ?? 1) + 1,
+        };
+        clearTimer(existing.id);
+        commit(
+          toastsRef.current.map((toast) =>
+            toast.id === existing.id ? merged : toast
+          )
+        );
+        notify(merged);
+        return existing.id;
       }
 
+      const id = `toast-${++toastCounter}`;
+      const toast: Toast = {
+        id,
+        type,
+        title,
+        message,
+        duration,
+        actions: options.actions,
+        onDismiss: options.onDismiss,
+      };
+
+      commit([...toastsRef.current, toast]);
+      notify(toast);
+
       return id;
     },
-    [removeToast]
+    [dedupe, clearTimer, commit, notify]
+  );
+
+  const updateToast = useCallback(
+    (id: string, changes: Partial<Omit<Toast, "id">>) => {
+      clearTimer(id);
+      commit(
+        toastsRef.current.map((toast) =>
+          toast.id === id ? { ...toast, ...changes } : toast
+        )
+      );
+    },
+    [clearTimer, commit]
   );
 
   const success = useCallback(
-    (title: string, message: string, duration?: number) => {
-      return addToast("success", title, message, duration);
+    (
+      title: string,
+      message: string,
+      duration?: number,
+      options?: ToastOptions
+    ) => {
+      return addToast("success", title, message, duration, options);
     },
     [addToast]
   );
 
   const error = useCallback(
-    (title: string, message: string, duration?: number) => {
-      return addToast("error", title, message, duration);
+    (
+      title: string,
+      message: string,
+      duration?: number,
+      options?: ToastOptions
+    ) => {
+      return addToast("error", title, message, duration, options);
     },
     [addToast]
   );
 
   const warning = useCallback(
-    (title: string, message: string, duration?: number) => {
-      return addToast("warning", title, message, duration);
+    (
+      title: string,
+      message: string,
+      duration?: number,
+      options?: ToastOptions
+    ) => {
+      return addToast("warning", title, message, duration, options);
     },
     [addToast]
   );
 
   const info = useCallback(
-    (title: string, message: string, duration?: number) => {
-      return addToast("info", title, message, duration);
+    (
+      title: string,
+      message: string,
+      duration?: number,
+      options?: ToastOptions
+    ) => {
+      return addToast("info", title, message, duration, options);
     },
     [addToast]
   );
 
   const errorFromApi = useCallback(
-    (apiError: ApiError, customMessage?: string) => {
+    (
+      apiError: ApiError,
+      customMessage?: string,
+      options: ErrorToastOptions = {}
+    ) => {
       const notification = createErrorNotification(apiError);
+      const { onRetry, actions = [] } = options;
       return addToast(
         notification.type,
         notification.title,
         customMessage || notification.message,
-        notification.duration
+        notification.duration,
+        {
+          actions: onRetry
+            ? [...actions, { label: "Retry", onClick: onRetry }]
+            : options.actions,
+          onDismiss: options.onDismiss,
+        }
       );
     },
     [addToast]
   );
 
+  /**
+   * Show a loading toast that turns into a success or error toast
+   * when the promise settles; returns the original promise
+   */
+  const promise = useCallback(
+    <T>(task: Promise<T>, messages: PromiseToastMessages<T>): Promise<T> => {
+      const loading = resolveContent(messages.loading, undefined);
+      const id = addToast(
+        "loading",
+        loading.title ?? "Please wait",
+        loading.message ?? "",
+        0,
+        { actions: loading.actions }
+      );
+
+      // Reuse the loading toast so it changes in place
+      const settle = (changes: Omit<Toast, "id">) => {
+        updateToast(id, changes);
+        notify({ id, ...changes });
+      };
+
+      task.then(
+        (value) => {
+          const content = resolveContent(messages.success, value);
+          settle({
+            type: "success",
+            title: content.title ?? "Success!",
+            message: content.message ?? "",
+            duration: 5000,
+            actions: content.actions,
+          });
+        },
+        (error: unknown) => {
+          const notification = createErrorNotification(parseError(error));
+          const content = resolveContent(messages.error, error);
+          settle({
+            type: notification.type,
+            title: content.title ?? notification.title,
+            message: content.message ?? notification.message,
+            duration: notification.duration,
+            actions: content.actions,
+          });
+        }
+      );
+
+      return task;
+    },
+    [addToast, updateToast, notify]
+  );
+
   return {
     toasts,
+    queuedCount,
     addToast,
     removeToast,
+    pauseToast,
+    resumeToast,
     success,
     error,
     warning,
     info,
     errorFromApi,
+    promise,
   };
 }
@@ -0,0 +1,80 @@
+/**
+ * Undo Queue Hook
+ * Defers destructive actions for a grace period so they can be undone
+ * Pending actions are committed early if the page unloads or the component unmounts
+ */
+
+"use client";
+
+import { useEffect, useRef, useCallback } from "react";
+
+export interface UseUndoQueueOptions {
+  // null leaves the timing to the caller, who commits through commit(key)
+  delayMs?: number | null;
+}
+
+interface PendingAction {
+  timer?: ReturnType<typeof setTimeout>;
+  commit: () => void | Promise<void>;
+}
+
+export function useUndoQueue(options: UseUndoQueueOptions = {}) {
+  const { delayMs = 5000 } = options;
+  const pendingRef = useRef(new Map<string, PendingAction>());
+
+  // Remove first so a commit can never run twice
+  const commitNow = useCallback((key: string) => {
+    const action = pendingRef.current.get(key);
+    if (!action) return;
+    clearTimeout(action.timer);
+    pendingRef.current.delete(key);
+    action.commit();
+  }, []);
+
+  /**
+   * Run `commit` after the delay unless undone first
+   * Scheduling the same key again commits the earlier action immediately
+   */
+  const schedule = useCallback(
+    (key: string, commit: () => void | Promise<void>) => {
+      commitNow(key);
+      const timer =
+        delayMs === null ? undefined : setTimeout(() => commitNow(key), delayMs);
+      pendingRef.current.set(key, { timer, commit });
+    },
+    [commitNow, delayMs]
+  );
+
+  /**
+   * Cancel a pending action; returns false if it already ran
+   */
+  const undo = useCallback((key: string) => {
+    const action = pendingRef.current.get(key);
+    if (!action) return false;
+    clearTimeout(action.timer);
+    pendingRef.current.delete(key);
+    return true;
+  }, []);
+
+  const flush = useCallback(() => {
+    for (const key of [...pendingRef.current.keys()]) {
+      commitNow(key);
+    }
+  }, [commitNow]);
+
+  const isPending = useCallback(
+    (key: string) => pendingRef.current.has(key),
+    []
+  );
+
+  // Leaving the page (or this view) must not lose the pending actions
+  useEffect(() => {
+    window.addEventListener("pagehide", flush);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, [flush]);
+
+  return { schedule, undo, commit: commitNow, flush, isPending };
+}
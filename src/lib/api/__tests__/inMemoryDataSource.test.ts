@@ -0,0 +1,182 @@
+import { InMemoryPropertyDataSource } from "../inMemoryDataSource";
+import { createDataSource, PropertyApiService } from "../propertyService";
+import { Property, PropertyInput } from "@/types";
+import seedProperties from "@/data/properties.json";
+import seedCategories from "@/data/categories.json";
+
+describe("InMemoryPropertyDataSource", () => {
+  const mockProperties: Property[] = [
+    {
+      id: "1",
+      name: "Beach Villa",
+      addressProperty: "1 Ocean Dr, Miami, FL",
+      priceProperty: 1500000,
+      type: "Villa",
+      description: "Villa by the beach",
+      active: true,
+      createdAt: "2024-01-01T00:00:00Z",
+    },
+    {
+      id: "2",
+      name: "City Apartment",
+      addressProperty: "22 Main St, New York, NY",
+      priceProperty: 800000,
+      type: "Apartment",
+      description: "Apartment downtown",
+      active: false,
+      createdAt: "2024-01-02T00:00:00Z",
+    },
+    {
+      id: "3",
+      name: "Hillside Estate",
+      addressProperty: "3 Hill Rd, Miami, FL",
+      priceProperty: 3200000,
+      type: "Estate",
+      description: "Estate with a view",
+      active: true,
+      createdAt: "2024-01-03T00:00:00Z",
+    },
+  ];
+
+  let source: InMemoryPropertyDataSource;
+
+  beforeEach(() => {
+    source = new InMemoryPropertyDataSource({ properties: mockProperties });
+  });
+
+  it("seeds from src/data by default", async () => {
+    const defaultSource = new InMemoryPropertyDataSource();
+
+    const page = await defaultSource.getProperties();
+    const categories = await defaultSource.getCategories();
+
+    expect(page.totalRecords).toBe(seedProperties.length);
+    expect(categories).toEqual(seedCategories);
+  });
+
+  it("applies the same filters as the backend", async () => {
+    const byAddress = await source.getProperties({ address: "miami" });
+    expect(byAddress.data.map((p) => p.id)).toEqual(["1", "3"]);
+
+    const byPrice = await source.getProperties({
+      priceMin: 1000000,
+      priceMax: 2000000,
+    });
+    expect(byPrice.data.map((p) => p.id)).toEqual(["1"]);
+
+    const byTypeAndStatus = await source.getProperties({
+      type: "Apartment",
+      active: false,
+    });
+    expect(byTypeAndStatus.data.map((p) => p.id)).toEqual(["2"]);
+
+    const byTypes = await source.getProperties({ type: ["Villa", "Estate"] });
+    expect(byTypes.data.map((p) => p.id)).toEqual(["1", "3"]);
+
+    const byName = await source.getProperties({ name: "VILLA" });
+    expect(byName.data.map((p) => p.id)).toEqual(["1"]);
+  });
+
+  it("sorts by price, date and name", async () => {
+    const ids = async (filters: Parameters<typeof source.getProperties>[0]) =>
+      (await source.getProperties(filters)).data.map((p) => p.id);
+
+    expect(await ids({ sortBy: "price", sortDir: "asc" })).toEqual(["2", "1", "3"]);
+    expect(await ids({ sortBy: "price", sortDir: "desc" })).toEqual(["3", "1", "2"]);
+    expect(await ids({ sortBy: "createdAt", sortDir: "desc" })).toEqual(["3", "2", "1"]);
+    expect(await ids({ sortBy: "name", sortDir: "asc" })).toEqual(["1", "2", "3"]);
+  });
+
+  it("paginates results", async () => {
+    const page = await source.getProperties({}, { pageNumber: 2, pageSize: 2 });
+
+    expect(page).toMatchObject({
+      pageNumber: 2,
+      pageSize: 2,
+      totalPages: 2,
+      totalRecords: 3,
+    });
+    expect(page.data.map((p) => p.id)).toEqual(["3"]);
+  });
+
+  it("creates, updates and deletes properties", async () => {
+    const input: PropertyInput = {
+      name: "New Townhouse",
+      addressProperty: "9 Elm St",
+      priceProperty: 600000,
+      type: "Townhouse",
+      description: "Brand new",
+    };
+
+    const created = await source.createProperty(input);
+    expect(created).toMatchObject({ ...input, active: true });
+    expect(created.id).toBeTruthy();
+    expect(created.createdAt).toBeTruthy();
+
+    const updated = await source.updateProperty(created.id, {
+      priceProperty: 650000,
+    });
+    expect(updated.priceProperty).toBe(650000);
+    expect(await source.getPropertyById(created.id)).toEqual(updated);
+
+    await source.deleteProperty(created.id);
+    expect((await source.getProperties()).totalRecords).toBe(3);
+  });
+
+  it("rejects unknown IDs with a 404 ApiError", async () => {
+    await expect(source.getPropertyById("missing")).rejects.toMatchObject({
+      statusCode: 404,
+    });
+    await expect(
+      source.updateProperty("missing", { name: "x" })
+    ).rejects.toMatchObject({ statusCode: 404 });
+    await expect(source.deleteProperty("missing")).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+
+  it("does not mutate the seed data", async () => {
+    await source.updateProperty("1", { name: "Changed" });
+
+    expect(mockProperties[0].name).toBe("Beach Villa");
+  });
+
+  it("rejects requests on an aborted signal", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      source.getProperties({}, undefined, { signal: controller.signal })
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("returns uploaded images as data URLs", async () => {
+    const file = new File(["test"], "test.jpg", { type: "image/jpeg" });
+
+    const result = await source.uploadImage(file);
+
+    expect(result.fileName).toBe("test.jpg");
+    expect(result.imageUrl).toMatch(/^data:image\/jpeg;base64,/);
+  });
+});
+
+describe("createDataSource", () => {
+  it("selects the adapter by kind", () => {
+    expect(createDataSource("memory")).not.toBeInstanceOf(PropertyApiService);
+    expect(createDataSource("api")).toBeInstanceOf(PropertyApiService);
+  });
+
+  it("loads the in-memory adapter on first use", async () => {
+    const source = createDataSource("memory");
+
+    await expect(source.getCategories()).resolves.toEqual(seedCategories);
+    const created = await source.createProperty({
+      name: "New Townhouse",
+      addressProperty: "9 Elm St",
+      priceProperty: 600000,
+      type: "Townhouse",
+      description: "Brand new",
+    });
+    await expect(source.getPropertyById(created.id)).resolves.toEqual(created);
+  });
+});
@@ -1,4 +1,4 @@
-import { propertyApi } from "../propertyService";
+import { getAllProperties, propertyApi } from "../propertyService";
 import { Property, PropertyInput, Category } from "@/types";
 
 // Mock fetch globally
@@ -42,7 +42,13 @@ describe("PropertyApiService", () => {
           },
         })
       );
-      expect(result).toEqual(mockProperties);
+      expect(result).toEqual({
+        data: mockProperties,
+        pageNumber: 1,
+        pageSize: 1,
+        totalPages: 1,
+        totalRecords: 1,
+      });
     });
 
     it("applies filters to query string", async () => {
@@ -80,6 +86,92 @@ describe("PropertyApiService", () => {
       );
     });
 
+    it("sends one type parameter per selected category", async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => [],
+      });
+
+      await propertyApi.getProperties({ type: ["Villa", "Estate"] });
+
+      expect(fetch).toHaveBeenCalledWith(
+        "http://localhost:5000/api/properties?type=Villa&type=Estate",
+        expect.any(Object)
+      );
+    });
+
+    it("sends sort parameters", async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => [],
+      });
+
+      await propertyApi.getProperties({ sortBy: "price", sortDir: "desc" });
+
+      expect(fetch).toHaveBeenCalledWith(
+        "http://localhost:5000/api/properties?sortBy=price&sortDir=desc",
+        expect.any(Object)
+      );
+    });
+
+    it("sends pagination parameters", async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => [],
+      });
+
+      await propertyApi.getProperties({}, { pageNumber: 2, pageSize: 12 });
+
+      expect(fetch).toHaveBeenCalledWith(
+        "http://localhost:5000/api/properties?pageNumber=2&pageSize=12",
+        expect.any(Object)
+      );
+    });
+
+    it("returns paginated envelopes from the backend as-is", async () => {
+      const envelope = {
+        data: [],
+        pageNumber: 3,
+        pageSize: 12,
+        totalPages: 10,
+        totalRecords: 115,
+      };
+
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => envelope,
+      });
+
+      const result = await propertyApi.getProperties(
+        {},
+        { pageNumber: 3, pageSize: 12 }
+      );
+
+      expect(result).toEqual(envelope);
+    });
+
+    it("paginates unpaginated responses locally", async () => {
+      const items = Array.from({ length: 5 }, (_, i) => ({ id: `${i + 1}` }));
+
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: items, success: true }),
+      });
+
+      const result = await propertyApi.getProperties(
+        {},
+        { pageNumber: 2, pageSize: 2 }
+      );
+
+      expect(result).toEqual({
+        data: [{ id: "3" }, { id: "4" }],
+        pageNumber: 2,
+        pageSize: 2,
+        totalPages: 3,
+        totalRecords: 5,
+      });
+    });
+
     it("handles API errors", async () => {
       // Mock all 3 retry attempts with the same error
       (fetch as jest.Mock).mockResolvedValue({
@@ -298,6 +390,51 @@ describe("PropertyApiService", () => {
       expect(fetch).toHaveBeenCalledTimes(3);
     });
 
+    it("cancels the fetch when the caller's signal aborts", async () => {
+      const controller = new AbortController();
+
+      (fetch as jest.Mock).mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_, reject) => {
+            init.signal?.addEventListener("abort", () =>
+              reject(new DOMException("Aborted", "AbortError"))
+            );
+          })
+      );
+
+      const request = propertyApi.getProperties({}, undefined, {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(request).rejects.toMatchObject({ name: "AbortError" });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not retry or log aborted requests", async () => {
+      const controller = new AbortController();
+      const consoleSpy = jest.spyOn(console, "error").mockImplementation();
+      const abortError = new DOMException("Aborted", "AbortError");
+
+      (fetch as jest.Mock).mockRejectedValue(abortError);
+      controller.abort();
+
+      await expect(
+        propertyApi.getProperties({}, undefined, { signal: controller.signal })
+      ).rejects.toMatchObject({ name: "AbortError" });
+
+      expect(fetch).not.toHaveBeenCalled();
+
+      await expect(
+        propertyApi.getCategories({ signal: new AbortController().signal })
+      ).rejects.toBe(abortError);
+
+      // Single attempt, no retry and no error log
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(consoleSpy).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
     it("handles malformed JSON responses", async () => {
       (fetch as jest.Mock).mockResolvedValue({
         ok: false,
@@ -316,4 +453,113 @@ describe("PropertyApiService", () => {
       expect(fetch).toHaveBeenCalledTimes(3);
     });
   });
+
+  describe("Timeouts", () => {
+    // fetch that never settles until its signal is aborted
+    const hangingFetch = (_url: string, init: RequestInit) =>
+      new Promise((_, reject) => {
+        init.signal?.addEventListener("abort", () =>
+          reject(new DOMException("Aborted", "AbortError"))
+        );
+      });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("rejects with a 408 ApiError when the request times out", async () => {
+      (fetch as jest.Mock).mockImplementation(hangingFetch);
+
+      await expect(
+        propertyApi.deleteProperty("1", { timeout: 10 })
+      ).rejects.toMatchObject({
+        statusCode: 408,
+        message: expect.stringContaining("timed out"),
+      });
+    });
+
+    it("uses the longer upload timeout for images", async () => {
+      jest.useFakeTimers();
+      (fetch as jest.Mock).mockImplementation(hangingFetch);
+
+      const mockFile = new File(["test"], "test.jpg", { type: "image/jpeg" });
+      const upload = propertyApi.uploadImage(mockFile);
+      const outcome = jest.fn();
+      upload.then(outcome, outcome);
+
+      await jest.advanceTimersByTimeAsync(30000);
+      expect(outcome).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(90000);
+      expect(outcome).toHaveBeenCalledWith(
+        expect.objectContaining({ statusCode: 408 })
+      );
+    });
+
+    it("retries timed out GET requests", async () => {
+      jest.useFakeTimers();
+      (fetch as jest.Mock)
+        .mockImplementationOnce(hangingFetch)
+        .mockResolvedValueOnce({ ok: true, json: async () => [] });
+
+      const request = propertyApi.getCategories({ timeout: 100 });
+
+      await jest.advanceTimersByTimeAsync(100 + 1000);
+
+      await expect(request).resolves.toEqual([]);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("getAllProperties", () => {
+    const property = (id: string): Property => ({
+      id,
+      name: `Property ${id}`,
+      addressProperty: `${id} Test St`,
+      priceProperty: 100000,
+      type: "House",
+      description: "Test description",
+      active: true,
+      createdAt: "2024-01-01T00:00:00Z",
+    });
+
+    const pageResponse = (data: Property[], pageNumber: number) => ({
+      ok: true,
+      json: async () => ({
+        data,
+        pageNumber,
+        pageSize: 100,
+        totalPages: 2,
+        totalRecords: 3,
+      }),
+    });
+
+    it("walks every page with the same filters", async () => {
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce(pageResponse([property("1"), property("2")], 1))
+        .mockResolvedValueOnce(pageResponse([property("3")], 2));
+
+      const result = await getAllProperties({ type: "House", sortBy: "price" });
+
+      expect(result.map((p) => p.id)).toEqual(["1", "2", "3"]);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(fetch).toHaveBeenNthCalledWith(
+        1,
+        "http://localhost:5000/api/properties?type=House&sortBy=price&sortDir=asc&pageNumber=1&pageSize=100",
+        expect.any(Object)
+      );
+      expect(fetch).toHaveBeenNthCalledWith(
+        2,
+        "http://localhost:5000/api/properties?type=House&sortBy=price&sortDir=asc&pageNumber=2&pageSize=100",
+        expect.any(Object)
+      );
+    });
+
+    it("stops at an empty page", async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce(pageResponse([], 1));
+
+      await expect(getAllProperties()).resolves.toEqual([]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
 });
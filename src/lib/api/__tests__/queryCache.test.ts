@@ -0,0 +1,169 @@
+import {
+  QueryCache,
+  applyPropertyDeletion,
+  applyPropertyUpdate,
+  getPropertyListKey,
+  invalidatePropertyLists,
+  propertyListCache,
+  readThrough,
+} from "../queryCache";
+import { Property } from "@/types";
+
+describe("QueryCache", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("serves entries as fresh until the TTL expires", () => {
+    const cache = new QueryCache<string>({ ttlMs: 1000 });
+    cache.set("a", "value");
+
+    expect(cache.get("a")).toMatchObject({ data: "value", isStale: false });
+
+    jest.advanceTimersByTime(1000);
+
+    expect(cache.get("a")).toMatchObject({ data: "value", isStale: true });
+  });
+
+  it("evicts the least recently used entry beyond maxEntries", () => {
+    const cache = new QueryCache<number>({ maxEntries: 2 });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a"); // "b" is now the least recently used
+    cache.set("c", 3);
+
+    expect(cache.size).toBe(2);
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")?.data).toBe(1);
+    expect(cache.get("c")?.data).toBe(3);
+  });
+
+  it("marks matching entries stale on invalidate", () => {
+    const cache = new QueryCache<number>({ ttlMs: 1000 });
+    cache.set("keep", 1);
+    cache.set("drop", 2);
+
+    cache.invalidate((key) => key === "drop");
+
+    expect(cache.get("keep")?.isStale).toBe(false);
+    expect(cache.get("drop")?.isStale).toBe(true);
+  });
+
+  it("patches entries in place", () => {
+    const cache = new QueryCache<number>();
+    cache.set("a", 1);
+    cache.set("b", 2);
+
+    cache.patch((value, key) => (key === "a" ? value + 10 : undefined));
+
+    expect(cache.get("a")?.data).toBe(11);
+    expect(cache.get("b")?.data).toBe(2);
+  });
+});
+
+describe("readThrough", () => {
+  it("fetches and stores on a miss", async () => {
+    const cache = new QueryCache<string>();
+    const fetcher = jest.fn().mockResolvedValue("fresh");
+
+    const { cached, result } = readThrough(cache, "k", fetcher);
+
+    expect(cached).toBeUndefined();
+    await expect(result).resolves.toBe("fresh");
+    expect(cache.get("k")?.data).toBe("fresh");
+  });
+
+  it("skips the fetch for fresh entries", async () => {
+    const cache = new QueryCache<string>();
+    cache.set("k", "cached");
+    const fetcher = jest.fn();
+
+    const { cached, result } = readThrough(cache, "k", fetcher);
+
+    expect(cached).toBe("cached");
+    await expect(result).resolves.toBe("cached");
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it("serves stale entries while revalidating", async () => {
+    const cache = new QueryCache<string>();
+    cache.set("k", "old");
+    cache.invalidate();
+    const fetcher = jest.fn().mockResolvedValue("new");
+
+    const { cached, result } = readThrough(cache, "k", fetcher);
+
+    expect(cached).toBe("old");
+    await expect(result).resolves.toBe("new");
+    expect(cache.get("k")).toMatchObject({ data: "new", isStale: false });
+  });
+});
+
+describe("property list cache", () => {
+  const property = (id: string, name = `Property ${id}`): Property => ({
+    id,
+    name,
+    addressProperty: "1 Main St",
+    priceProperty: 100000,
+    type: "House",
+    description: "Description",
+    active: true,
+    createdAt: "2024-01-01T00:00:00Z",
+  });
+
+  const page = (data: Property[]) => ({
+    data,
+    pageNumber: 1,
+    pageSize: 2,
+    totalPages: 2,
+    totalRecords: 3,
+  });
+
+  beforeEach(() => {
+    propertyListCache.clear();
+  });
+
+  it("normalizes equivalent filters to the same key", () => {
+    expect(getPropertyListKey({ type: ["Villa", "Estate"], name: " beach " })).toBe(
+      getPropertyListKey({ type: ["Estate", "Villa"], name: "beach", address: "" })
+    );
+    expect(getPropertyListKey({}, { pageNumber: 1 })).not.toBe(
+      getPropertyListKey({}, { pageNumber: 2 })
+    );
+  });
+
+  it("patches updated properties and invalidates lists", () => {
+    propertyListCache.set("a", page([property("1"), property("2")]));
+
+    applyPropertyUpdate(property("2", "Renamed"));
+
+    const entry = propertyListCache.get("a");
+    expect(entry?.data.data[1].name).toBe("Renamed");
+    expect(entry?.isStale).toBe(true);
+  });
+
+  it("removes deleted properties and adjusts totals", () => {
+    propertyListCache.set("a", page([property("1"), property("2")]));
+
+    applyPropertyDeletion("1");
+
+    const entry = propertyListCache.get("a");
+    expect(entry?.data.data.map((p) => p.id)).toEqual(["2"]);
+    expect(entry?.data).toMatchObject({ totalRecords: 2, totalPages: 1 });
+    expect(entry?.isStale).toBe(true);
+  });
+
+  it("invalidates every list after a create", () => {
+    propertyListCache.set("a", page([property("1")]));
+    propertyListCache.set("b", page([property("2")]));
+
+    invalidatePropertyLists();
+
+    expect(propertyListCache.get("a")?.isStale).toBe(true);
+    expect(propertyListCache.get("b")?.isStale).toBe(true);
+  });
+});
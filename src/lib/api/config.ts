@@ -1,8 +1,18 @@
 // API Configuration
 
+import { DataSourceKind } from "./dataSource";
+
 export const API_CONFIG = {
   baseUrl: process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000/api",
+  // "api" talks to the backend, "memory" serves src/data without one
+  dataSource: (process.env.NEXT_PUBLIC_DATA_SOURCE || "api") as DataSourceKind,
   timeout: 30000, // 30 seconds
+  uploadTimeout: 120000, // 2 minutes, images can be large
+  defaultPageSize: 12,
+  cacheTtl: 30000, // cached lists are served without refetching for 30 seconds
+  cacheMaxEntries: 50,
+  bulkConcurrency: 4, // parallel requests for bulk actions on the grid
+  exportPageSize: 100, // page size used to fetch every match for an export
   headers: {
     "Content-Type": "application/json",
   },
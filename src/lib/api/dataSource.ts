@@ -0,0 +1,35 @@
+/**
+ * Property Data Source
+ * Contract shared by the HTTP client and the in-memory adapter
+ */
+
+import { Property, PropertyInput, PropertyFilter, Category } from "@/types";
+import { PaginatedResponse, PaginationParams, RequestOptions } from "./types";
+
+export type DataSourceKind = "api" | "memory";
+
+export interface UploadedImage {
+  imageUrl: string;
+  fileName: string;
+}
+
+export interface PropertyDataSource {
+  getProperties(
+    filters?: PropertyFilter,
+    pagination?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<Property>>;
+  getPropertyById(id: string, options?: RequestOptions): Promise<Property>;
+  createProperty(
+    property: PropertyInput,
+    options?: RequestOptions
+  ): Promise<Property>;
+  updateProperty(
+    id: string,
+    property: Partial<PropertyInput>,
+    options?: RequestOptions
+  ): Promise<Property>;
+  deleteProperty(id: string, options?: RequestOptions): Promise<void>;
+  uploadImage(file: File, options?: RequestOptions): Promise<UploadedImage>;
+  getCategories(options?: RequestOptions): Promise<Category[]>;
+}
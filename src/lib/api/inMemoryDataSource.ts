@@ -0,0 +1,154 @@
+/**
+ * In-Memory Data Source
+ * Serves properties and categories from src/data so the app runs without a backend
+ * Changes live for the lifetime of the page (or test) only
+ */
+
+import { Property, PropertyInput, PropertyFilter, Category } from "@/types";
+import seedProperties from "@/data/properties.json";
+import seedCategories from "@/data/categories.json";
+import { PropertyDataSource, UploadedImage } from "./dataSource";
+import {
+  ApiError,
+  PaginatedResponse,
+  PaginationParams,
+  RequestOptions,
+} from "./types";
+import { filterProperties, paginate, sortProperties } from "./propertyQuery";
+
+export interface InMemorySeed {
+  properties?: Property[];
+  categories?: Category[];
+}
+
+function generateId(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : Date.now().toString();
+}
+
+function notFound(id: string): ApiError {
+  return { message: `Property ${id} not found`, statusCode: 404 };
+}
+
+/**
+ * Mirror fetch(): a request on an aborted signal rejects with an AbortError
+ */
+function throwIfAborted(options?: RequestOptions): void {
+  if (options?.signal?.aborted) {
+    throw new DOMException("The operation was aborted.", "AbortError");
+  }
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export class InMemoryPropertyDataSource implements PropertyDataSource {
+  private properties: Property[];
+  private categories: Category[];
+
+  constructor(seed: InMemorySeed = {}) {
+    // Copy so mutations never leak into the imported JSON modules
+    this.properties = (seed.properties ?? (seedProperties as Property[])).map(
+      (property) => ({ ...property })
+    );
+    this.categories = (seed.categories ?? (seedCategories as Category[])).map(
+      (category) => ({ ...category })
+    );
+  }
+
+  async getProperties(
+    filters?: PropertyFilter,
+    pagination?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<Property>> {
+    throwIfAborted(options);
+    return paginate(
+      sortProperties(filterProperties(this.properties, filters), filters),
+      pagination
+    );
+  }
+
+  async getPropertyById(
+    id: string,
+    options?: RequestOptions
+  ): Promise<Property> {
+    throwIfAborted(options);
+    const property = this.properties.find((p) => p.id === id);
+    if (!property) {
+      throw notFound(id);
+    }
+    return { ...property };
+  }
+
+  async createProperty(
+    property: PropertyInput,
+    options?: RequestOptions
+  ): Promise<Property> {
+    throwIfAborted(options);
+    const created: Property = {
+      ...property,
+      id: generateId(),
+      active: property.active ?? true,
+      createdAt: new Date().toISOString(),
+    };
+    this.properties = [created, ...this.properties];
+    return { ...created };
+  }
+
+  async updateProperty(
+    id: string,
+    property: Partial<PropertyInput>,
+    options?: RequestOptions
+  ): Promise<Property> {
+    throwIfAborted(options);
+    const existing = this.properties.find((p) => p.id === id);
+    if (!existing) {
+      throw notFound(id);
+    }
+    const updated: Property = { ...existing, ...property, id };
+    this.properties = this.properties.map((p) => (p.id === id ? updated : p));
+    return { ...updated };
+  }
+
+  async deleteProperty(id: string, options?: RequestOptions): Promise<void> {
+    throwIfAborted(options);
+    if (!this.properties.some((p) => p.id === id)) {
+      throw notFound(id);
+    }
+    this.properties = this.properties.filter((p) => p.id !== id);
+  }
+
+  /**
+   * Images are kept inline as data URLs since there is no server to store them
+   */
+  async uploadImage(
+    file: File,
+    options?: RequestOptions
+  ): Promise<UploadedImage> {
+    throwIfAborted(options);
+    return { imageUrl: await readAsDataUrl(file), fileName: file.name };
+  }
+
+  async getCategories(options?: RequestOptions): Promise<Category[]> {
+    throwIfAborted(options);
+    return this.categories.map((category) => ({ ...category }));
+  }
+
+  /**
+   * Current contents, in the same shape the constructor accepts
+   * Used by the file-backed store to persist changes
+   */
+  toSeed(): Required<InMemorySeed> {
+    return {
+      properties: this.properties.map((property) => ({ ...property })),
+      categories: this.categories.map((category) => ({ ...category })),
+    };
+  }
+}
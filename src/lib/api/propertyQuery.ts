@@ -0,0 +1,240 @@
+/**
+ * Property Query Helpers
+ * Query string (de)serialization, filtering and pagination for GET /properties
+ * Mirrors the semantics the backend applies so local sources behave the same
+ */
+
+import {
+  Property,
+  PropertyFilter,
+  PropertySortField,
+  SortDirection,
+} from "@/types";
+import { PaginatedResponse, PaginationParams } from "./types";
+
+/**
+ * Selected categories as a list (legacy single-type filters become one entry)
+ */
+export function getFilterTypes(filters?: PropertyFilter): string[] {
+  const type = filters?.type;
+  if (!type) return [];
+  const types = Array.isArray(type) ? type : [type];
+  return [...new Set(types.filter(Boolean))];
+}
+
+/**
+ * Serialize filters and pagination into the GET /properties query string
+ */
+export function buildPropertySearchParams(
+  filters?: PropertyFilter,
+  pagination?: PaginationParams
+): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters?.name) params.append("name", filters.name);
+  if (filters?.address) params.append("address", filters.address);
+  if (filters?.priceMin !== null && filters?.priceMin !== undefined) {
+    params.append("priceMin", filters.priceMin.toString());
+  }
+  if (filters?.priceMax !== null && filters?.priceMax !== undefined) {
+    params.append("priceMax", filters.priceMax.toString());
+  }
+  // Repeated params: type=Villa&type=Estate
+  for (const type of getFilterTypes(filters)) {
+    params.append("type", type);
+  }
+  if (filters?.active !== null && filters?.active !== undefined) {
+    params.append("active", filters.active.toString());
+  }
+  if (filters?.sortBy) {
+    params.append("sortBy", filters.sortBy);
+    params.append("sortDir", filters.sortDir || "asc");
+  }
+  if (pagination?.pageNumber) {
+    params.append("pageNumber", pagination.pageNumber.toString());
+  }
+  if (pagination?.pageSize) {
+    params.append("pageSize", pagination.pageSize.toString());
+  }
+
+  return params;
+}
+
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function parseBoolean(value: string | null): boolean | null {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return null;
+}
+
+const SORT_FIELDS: PropertySortField[] = ["price", "createdAt", "name"];
+
+function parseSortField(value: string | null): PropertySortField | null {
+  return SORT_FIELDS.find((field) => field === value) ?? null;
+}
+
+function parseSortDirection(value: string | null): SortDirection | null {
+  return value === "asc" || value === "desc" ? value : null;
+}
+
+/**
+ * Parse a GET /properties query string (inverse of buildPropertySearchParams)
+ * Invalid values are ignored rather than rejected
+ */
+export function parsePropertySearchParams(params: URLSearchParams): {
+  filters: PropertyFilter;
+  pagination?: PaginationParams;
+} {
+  const filters: PropertyFilter = {
+    name: params.get("name") || "",
+    address: params.get("address") || "",
+    priceMin: parseNumber(params.get("priceMin")),
+    priceMax: parseNumber(params.get("priceMax")),
+    type: null,
+    active: parseBoolean(params.get("active")),
+    sortBy: null,
+    sortDir: null,
+  };
+
+  const types = [...new Set(params.getAll("type").filter(Boolean))];
+  if (types.length > 0) {
+    filters.type = types;
+  }
+
+  const sortBy = parseSortField(params.get("sortBy"));
+  if (sortBy) {
+    filters.sortBy = sortBy;
+    filters.sortDir = parseSortDirection(params.get("sortDir")) ?? "asc";
+  }
+
+  const pageNumber = parseNumber(params.get("pageNumber"));
+  const pageSize = parseNumber(params.get("pageSize"));
+  const pagination =
+    pageNumber || pageSize
+      ? {
+          pageNumber: pageNumber && pageNumber > 0 ? pageNumber : undefined,
+          pageSize: pageSize && pageSize > 0 ? pageSize : undefined,
+        }
+      : undefined;
+
+  return { filters, pagination };
+}
+
+/**
+ * Apply the listing filters
+ * name/address: case-insensitive partial match, type: exact match on any selected
+ */
+export function filterProperties(
+  properties: Property[],
+  filters: PropertyFilter = {}
+): Property[] {
+  const name = filters.name?.trim().toLowerCase();
+  const address = filters.address?.trim().toLowerCase();
+  const types = getFilterTypes(filters);
+
+  return properties.filter((property) => {
+    if (name && !property.name.toLowerCase().includes(name)) return false;
+    if (
+      address &&
+      !property.addressProperty.toLowerCase().includes(address)
+    ) {
+      return false;
+    }
+    if (
+      filters.priceMin !== null &&
+      filters.priceMin !== undefined &&
+      property.priceProperty < filters.priceMin
+    ) {
+      return false;
+    }
+    if (
+      filters.priceMax !== null &&
+      filters.priceMax !== undefined &&
+      property.priceProperty > filters.priceMax
+    ) {
+      return false;
+    }
+    if (types.length > 0 && !types.includes(property.type)) return false;
+    if (
+      filters.active !== null &&
+      filters.active !== undefined &&
+      property.active !== filters.active
+    ) {
+      return false;
+    }
+    return true;
+  });
+}
+
+function compareBy(
+  a: Property,
+  b: Property,
+  field: PropertySortField
+): number {
+  switch (field) {
+    case "price":
+      return a.priceProperty - b.priceProperty;
+    case "createdAt":
+      return Date.parse(a.createdAt) - Date.parse(b.createdAt);
+    case "name":
+      return a.name.localeCompare(b.name, undefined, { sensitivity: "base" });
+  }
+}
+
+/**
+ * Apply the requested sort order (stable; unsorted input is returned as-is)
+ * Ties fall back to newest first
+ */
+export function sortProperties(
+  properties: Property[],
+  filters: PropertyFilter = {}
+): Property[] {
+  const { sortBy } = filters;
+  if (!sortBy) return properties;
+
+  const direction = filters.sortDir === "desc" ? -1 : 1;
+  return [...properties].sort(
+    (a, b) =>
+      direction * compareBy(a, b, sortBy) ||
+      compareBy(b, a, "createdAt")
+  );
+}
+
+/**
+ * Slice a full result set into a paginated envelope
+ * Without a page size everything is returned as a single page
+ */
+export function paginate<T>(
+  items: T[],
+  pagination?: PaginationParams
+): PaginatedResponse<T> {
+  const totalRecords = items.length;
+
+  if (!pagination?.pageSize) {
+    return {
+      data: items,
+      pageNumber: 1,
+      pageSize: totalRecords,
+      totalPages: 1,
+      totalRecords,
+    };
+  }
+
+  const pageSize = pagination.pageSize;
+  const totalPages = Math.max(1, Math.ceil(totalRecords / pageSize));
+  const pageNumber = Math.min(Math.max(1, pagination.pageNumber || 1), totalPages);
+  const start = (pageNumber - 1) * pageSize;
+
+  return {
+    data: items.slice(start, start + pageSize),
+    pageNumber,
+    pageSize,
+    totalPages,
+    totalRecords,
+  };
+}
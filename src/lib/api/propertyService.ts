@@ -1,10 +1,23 @@
-import { Property, PropertyInput, Category } from "@/types";
+import { Property, PropertyInput, PropertyFilter, Category } from "@/types";
 import { API_CONFIG, API_ENDPOINTS } from "./config";
-import { ApiResponse, ApiError } from "./types";
-import { handleError } from "@/lib/utils/errorHandler";
+import {
+  DataSourceKind,
+  PropertyDataSource,
+  UploadedImage,
+} from "./dataSource";
+import { buildPropertySearchParams, paginate } from "./propertyQuery";
+import {
+  ApiResponse,
+  ApiError,
+  PaginatedResponse,
+  PaginationParams,
+  RequestOptions,
+} from "./types";
+import { handleError, isAbortError } from "@/lib/utils/errorHandler";
 import { withRetry } from "@/lib/utils/retry";
+import { createTimeoutSignal, createTimeoutError } from "@/lib/utils/timeout";
 
-class PropertyApiService {
+export class PropertyApiService implements PropertyDataSource {
   private baseUrl: string;
 
   constructor() {
@@ -14,15 +27,20 @@ class PropertyApiService {
   /**
    * Make a fetch request with centralized error handling
    * Error handling is now delegated to utility functions
+   * Requests slower than timeoutMs fail with a 408 ApiError
    */
   private async request<T>(
     endpoint: string,
-    options?: RequestInit
+    options?: RequestInit,
+    timeoutMs: number = API_CONFIG.timeout
   ): Promise<T> {
+    const timeout = createTimeoutSignal(timeoutMs, options?.signal);
+
     try {
       const url = `${this.baseUrl}${endpoint}`;
       const response = await fetch(url, {
         ...options,
+        signal: timeout.signal,
         headers: {
           ...API_CONFIG.headers,
           ...options?.headers,
@@ -46,8 +64,21 @@ class PropertyApiService {
       const data = await response.json();
       return data;
     } catch (error) {
+      const method = options?.method || "GET";
+
+      if (timeout.timedOut()) {
+        throw handleError(createTimeoutError(timeoutMs), { endpoint, method });
+      }
+
+      // Cancelled requests are expected, pass them through without logging
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       // Use centralized error handler
-      throw handleError(error, { endpoint, method: options?.method || "GET" });
+      throw handleError(error, { endpoint, method });
+    } finally {
+      timeout.clear();
     }
   }
 
@@ -56,11 +87,13 @@ class PropertyApiService {
    */
   private async retryableRequest<T>(
     endpoint: string,
-    options?: RequestInit
+    options?: RequestInit,
+    timeoutMs?: number
   ): Promise<T> {
-    return withRetry(() => this.request<T>(endpoint, options), {
+    return withRetry(() => this.request<T>(endpoint, options, timeoutMs), {
       maxAttempts: 3,
       delayMs: 1000,
+      signal: options?.signal ?? undefined,
       onRetry: (attempt, error) => {
         console.log(
           `Retry attempt ${attempt} for ${endpoint}: ${error.message}`
@@ -70,31 +103,16 @@ class PropertyApiService {
   }
 
   /**
-   * Get all properties with optional filters
+   * Get a page of properties with optional filters
+   * Accepts flat arrays, ApiResponse wrappers and paginated envelopes
    */
-  async getProperties(filters?: {
-    name?: string;
-    address?: string;
-    priceMin?: number | null;
-    priceMax?: number | null;
-    type?: string | null;
-    active?: boolean | null;
-  }): Promise<Property[]> {
+  async getProperties(
+    filters?: PropertyFilter,
+    pagination?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<Property>> {
     // Build query string from filters
-    const params = new URLSearchParams();
-
-    if (filters?.name) params.append("name", filters.name);
-    if (filters?.address) params.append("address", filters.address);
-    if (filters?.priceMin !== null && filters?.priceMin !== undefined) {
-      params.append("priceMin", filters.priceMin.toString());
-    }
-    if (filters?.priceMax !== null && filters?.priceMax !== undefined) {
-      params.append("priceMax", filters.priceMax.toString());
-    }
-    if (filters?.type) params.append("type", filters.type);
-    if (filters?.active !== null && filters?.active !== undefined) {
-      params.append("active", filters.active.toString());
-    }
+    const params = buildPropertySearchParams(filters, pagination);
 
     const queryString = params.toString();
     const endpoint = queryString
@@ -103,23 +121,45 @@ class PropertyApiService {
 
     // Use retryable request for GET operations
     const response = await this.retryableRequest<
-      Property[] | ApiResponse<Property[]>
-    >(endpoint);
+      Property[] | ApiResponse<Property[]> | PaginatedResponse<Property>
+    >(endpoint, { signal: options?.signal }, options?.timeout);
 
-    // Handle both direct array response and wrapped response
-    if (Array.isArray(response)) {
+    return this.toPage(response, pagination);
+  }
+
+  /**
+   * Normalize a properties response into a paginated envelope
+   * Unpaginated responses are sliced locally so callers always get one page
+   */
+  private toPage(
+    response:
+      | Property[]
+      | ApiResponse<Property[]>
+      | PaginatedResponse<Property>,
+    pagination?: PaginationParams
+  ): PaginatedResponse<Property> {
+    if (!Array.isArray(response) && "totalRecords" in response) {
       return response;
     }
-    return response.data;
+
+    const items = Array.isArray(response) ? response : response.data;
+    return paginate(items, pagination);
   }
 
   /**
    * Get a single property by ID
    */
-  async getPropertyById(id: string): Promise<Property> {
+  async getPropertyById(
+    id: string,
+    options?: RequestOptions
+  ): Promise<Property> {
     const response = await this.retryableRequest<
       Property | ApiResponse<Property>
-    >(`${API_ENDPOINTS.properties}/${id}`);
+    >(
+      `${API_ENDPOINTS.properties}/${id}`,
+      { signal: options?.signal },
+      options?.timeout
+    );
 
     if ("data" in response) {
       return response.data;
@@ -130,13 +170,18 @@ class PropertyApiService {
   /**
    * Create a new property
    */
-  async createProperty(property: PropertyInput): Promise<Property> {
+  async createProperty(
+    property: PropertyInput,
+    options?: RequestOptions
+  ): Promise<Property> {
     const response = await this.request<Property | ApiResponse<Property>>(
       API_ENDPOINTS.properties,
       {
         method: "POST",
         body: JSON.stringify(property),
-      }
+        signal: options?.signal,
+      },
+      options?.timeout
     );
 
     if ("data" in response) {
@@ -150,14 +195,17 @@ class PropertyApiService {
    */
   async updateProperty(
     id: string,
-    property: Partial<PropertyInput>
+    property: Partial<PropertyInput>,
+    options?: RequestOptions
   ): Promise<Property> {
     const response = await this.request<Property | ApiResponse<Property>>(
       `${API_ENDPOINTS.properties}/${id}`,
       {
         method: "PUT",
         body: JSON.stringify(property),
-      }
+        signal: options?.signal,
+      },
+      options?.timeout
     );
 
     if ("data" in response) {
@@ -169,26 +217,38 @@ class PropertyApiService {
   /**
    * Delete a property
    */
-  async deleteProperty(id: string): Promise<void> {
-    await this.request<void>(`${API_ENDPOINTS.properties}/${id}`, {
-      method: "DELETE",
-    });
+  async deleteProperty(id: string, options?: RequestOptions): Promise<void> {
+    await this.request<void>(
+      `${API_ENDPOINTS.properties}/${id}`,
+      {
+        method: "DELETE",
+        signal: options?.signal,
+        keepalive: options?.keepalive,
+      },
+      options?.timeout
+    );
   }
 
   /**
    * Upload an image
+   * Uses the longer API_CONFIG.uploadTimeout unless overridden
    */
   async uploadImage(
-    file: File
-  ): Promise<{ imageUrl: string; fileName: string }> {
+    file: File,
+    options?: RequestOptions
+  ): Promise<UploadedImage> {
     const formData = new FormData();
     formData.append("file", file);
 
+    const timeoutMs = options?.timeout ?? API_CONFIG.uploadTimeout;
+    const timeout = createTimeoutSignal(timeoutMs, options?.signal);
+
     try {
       const url = `${this.baseUrl}${API_ENDPOINTS.upload}`;
       const response = await fetch(url, {
         method: "POST",
         body: formData,
+        signal: timeout.signal,
         // Don't set Content-Type header - browser will set it with boundary
       });
 
@@ -202,21 +262,34 @@ class PropertyApiService {
 
       return await response.json();
     } catch (error) {
+      const context = { endpoint: API_ENDPOINTS.upload, method: "POST" };
+
+      if (timeout.timedOut()) {
+        throw handleError(createTimeoutError(timeoutMs), context);
+      }
+
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       // Use centralized error handler
-      throw handleError(error, {
-        endpoint: API_ENDPOINTS.upload,
-        method: "POST",
-      });
+      throw handleError(error, context);
+    } finally {
+      timeout.clear();
     }
   }
 
   /**
    * Get all categories
    */
-  async getCategories(): Promise<Category[]> {
+  async getCategories(options?: RequestOptions): Promise<Category[]> {
     const response = await this.retryableRequest<
       Category[] | ApiResponse<Category[]>
-    >(API_ENDPOINTS.categories);
+    >(
+      API_ENDPOINTS.categories,
+      { signal: options?.signal },
+      options?.timeout
+    );
 
     if (Array.isArray(response)) {
       return response;
@@ -225,5 +298,81 @@ class PropertyApiService {
   }
 }
 
+// Keyed by the interface, so a method added there must be listed here too
+const DATA_SOURCE_METHODS: Record<keyof PropertyDataSource, true> = {
+  getProperties: true,
+  getPropertyById: true,
+  createProperty: true,
+  updateProperty: true,
+  deleteProperty: true,
+  uploadImage: true,
+  getCategories: true,
+};
+
+/**
+ * Defer creating a data source until one of its methods is first called
+ * Every method is async, so each call simply waits for the source to load
+ */
+function lazyDataSource(
+  load: () => Promise<PropertyDataSource>
+): PropertyDataSource {
+  let source: Promise<PropertyDataSource> | null = null;
+  const getSource = () => (source ??= load());
+
+  const methods = Object.keys(DATA_SOURCE_METHODS).map((name) => [
+    name,
+    async (...args: unknown[]) => {
+      const resolved = (await getSource()) as unknown as Record<
+        string,
+        (...args: unknown[]) => unknown
+      >;
+      return resolved[name](...args);
+    },
+  ]);
+  return Object.fromEntries(methods) as PropertyDataSource;
+}
+
+/**
+ * Create the data source selected by NEXT_PUBLIC_DATA_SOURCE
+ */
+export function createDataSource(
+  kind: DataSourceKind = API_CONFIG.dataSource
+): PropertyDataSource {
+  // Loaded on demand, so the src/data seed it bundles is only downloaded
+  // when that source is selected
+  return kind === "memory"
+    ? lazyDataSource(() =>
+        import("./inMemoryDataSource").then(
+          ({ InMemoryPropertyDataSource }) => new InMemoryPropertyDataSource()
+        )
+      )
+    : new PropertyApiService();
+}
+
 // Export singleton instance
-export const propertyApi = new PropertyApiService();
+export const propertyApi: PropertyDataSource = createDataSource();
+
+/**
+ * Fetch every property matching the filters, one page at a time
+ * Exports use this so they are not limited to the page on screen
+ */
+export async function getAllProperties(
+  filters?: PropertyFilter,
+  options?: RequestOptions,
+  source: PropertyDataSource = propertyApi
+): Promise<Property[]> {
+  const pageSize = API_CONFIG.exportPageSize;
+  const properties: Property[] = [];
+
+  for (let pageNumber = 1; ; pageNumber++) {
+    const page = await source.getProperties(
+      filters,
+      { pageNumber, pageSize },
+      options
+    );
+    properties.push(...page.data);
+    if (page.data.length === 0 || pageNumber >= page.totalPages) {
+      return properties;
+    }
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Query Cache
+ * Stale-while-revalidate cache for property lists and categories
+ * Fresh entries skip the network; stale ones are served while refetching
+ */
+
+import { Category, Property, PropertyFilter } from "@/types";
+import { API_CONFIG } from "./config";
+import { buildPropertySearchParams, getFilterTypes } from "./propertyQuery";
+import { PaginatedResponse, PaginationParams } from "./types";
+
+export interface QueryCacheOptions {
+  ttlMs?: number; // how long an entry counts as fresh
+  maxEntries?: number; // least recently used entries are evicted beyond this
+}
+
+export interface CachedQuery<T> {
+  data: T;
+  updatedAt: number;
+  isStale: boolean;
+}
+
+interface CacheEntry<T> {
+  data: T;
+  updatedAt: number;
+  invalidated: boolean;
+}
+
+export class QueryCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private ttlMs: number;
+  private maxEntries: number;
+
+  constructor(options: QueryCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? API_CONFIG.cacheTtl;
+    this.maxEntries = Math.max(1, options.maxEntries ?? API_CONFIG.cacheMaxEntries);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Read an entry and mark it as recently used
+   */
+  get(key: string): CachedQuery<T> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return {
+      data: entry.data,
+      updatedAt: entry.updatedAt,
+      isStale: entry.invalidated || Date.now() - entry.updatedAt >= this.ttlMs,
+    };
+  }
+
+  set(key: string, data: T): void {
+    this.entries.delete(key);
+    this.entries.set(key, { data, updatedAt: Date.now(), invalidated: false });
+
+    // Map iteration order is insertion order, so the first key is the LRU one
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Mark entries stale so the next read revalidates them
+   * Without a predicate every entry is invalidated
+   */
+  invalidate(predicate?: (key: string, data: T) => boolean): void {
+    for (const [key, entry] of this.entries) {
+      if (!predicate || predicate(key, entry.data)) {
+        entry.invalidated = true;
+      }
+    }
+  }
+
+  /**
+   * Rewrite cached data in place; return undefined to leave an entry untouched
+   * Patched entries keep their age, they are only a best guess until revalidated
+   */
+  patch(updater: (data: T, key: string) => T | undefined): void {
+    for (const [key, entry] of this.entries) {
+      const next = updater(entry.data, key);
+      if (next !== undefined) {
+        entry.data = next;
+      }
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Read a query through the cache
+ * `cached` can be rendered immediately; `result` resolves to the cached data
+ * when it is fresh, otherwise to freshly fetched data (which is stored)
+ */
+export function readThrough<T>(
+  cache: QueryCache<T>,
+  key: string,
+  fetcher: () => Promise<T>
+): { cached?: T; result: Promise<T> } {
+  const entry = cache.get(key);
+
+  if (entry && !entry.isStale) {
+    return { cached: entry.data, result: Promise.resolve(entry.data) };
+  }
+
+  const result = fetcher().then((data) => {
+    cache.set(key, data);
+    return data;
+  });
+  return { cached: entry?.data, result };
+}
+
+/**
+ * Cache key for a list query
+ * Equivalent filters (e.g. types in a different order) share one entry
+ */
+export function getPropertyListKey(
+  filters?: PropertyFilter,
+  pagination?: PaginationParams
+): string {
+  const normalized: PropertyFilter = {
+    ...filters,
+    name: filters?.name?.trim(),
+    address: filters?.address?.trim(),
+    type: getFilterTypes(filters).sort(),
+  };
+  return buildPropertySearchParams(normalized, pagination).toString();
+}
+
+export const CATEGORIES_KEY = "categories";
+
+export const propertyListCache = new QueryCache<PaginatedResponse<Property>>();
+
+export const categoriesCache = new QueryCache<Category[]>();
+
+/**
+ * Created properties may belong to any list, so every list is revalidated
+ */
+export function invalidatePropertyLists(): void {
+  propertyListCache.invalidate();
+}
+
+/**
+ * Swap an updated property into cached lists that contain it
+ * Every list is invalidated too, since the edit can change filter matches and order
+ */
+export function applyPropertyUpdate(updated: Property): void {
+  const contains = (page: PaginatedResponse<Property>) =>
+    page.data.some((property) => property.id === updated.id);
+
+  propertyListCache.patch((page) =>
+    contains(page)
+      ? {
+          ...page,
+          data: page.data.map((property) =>
+            property.id === updated.id ? updated : property
+          ),
+        }
+      : undefined
+  );
+  propertyListCache.invalidate();
+}
+
+/**
+ * Drop a deleted property from cached lists and revalidate them all,
+ * since later pages shift when an item disappears
+ */
+export function applyPropertyDeletion(id: string): void {
+  propertyListCache.patch((page) => {
+    if (!page.data.some((property) => property.id === id)) return undefined;
+    const totalRecords = Math.max(0, page.totalRecords - 1);
+    return {
+      ...page,
+      data: page.data.filter((property) => property.id !== id),
+      totalRecords,
+      totalPages: Math.max(1, Math.ceil(totalRecords / page.pageSize)),
+    };
+  });
+  propertyListCache.invalidate();
+}
@@ -19,3 +19,14 @@ export interface PaginatedResponse<T> {
   totalPages: number;
   totalRecords: number;
 }
+
+export interface PaginationParams {
+  pageNumber?: number;
+  pageSize?: number;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeout?: number; // milliseconds, defaults to API_CONFIG.timeout
+  keepalive?: boolean; // let the request outlive the page (fetch keepalive)
+}
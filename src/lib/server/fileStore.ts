@@ -0,0 +1,90 @@
+/**
+ * File-Backed Store for the local /api route handlers
+ * Persists properties and categories as JSON files on disk
+ * Seeded from src/data the first time a collection is read
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { Property, Category } from "@/types";
+import seedProperties from "@/data/properties.json";
+import seedCategories from "@/data/categories.json";
+import { InMemoryPropertyDataSource } from "@/lib/api/inMemoryDataSource";
+
+/**
+ * Directory holding the JSON files and uploaded images
+ * Read on every call so tests can point it at a temporary folder
+ */
+export function getDataDir(): string {
+  return process.env.LOCAL_DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+export function getUploadsDir(): string {
+  return path.join(getDataDir(), "uploads");
+}
+
+async function readJson<T>(fileName: string, seed: T): Promise<T> {
+  try {
+    const content = await fs.readFile(path.join(getDataDir(), fileName), "utf8");
+    return JSON.parse(content) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return seed;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write via a temporary file so a crash never leaves half-written JSON
+ */
+async function writeJson(fileName: string, data: unknown): Promise<void> {
+  const dir = getDataDir();
+  await fs.mkdir(dir, { recursive: true });
+  const target = path.join(dir, fileName);
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(data, null, 2));
+  await fs.rename(temp, target);
+}
+
+async function loadSource(): Promise<InMemoryPropertyDataSource> {
+  const [properties, categories] = await Promise.all([
+    readJson<Property[]>("properties.json", seedProperties as Property[]),
+    readJson<Category[]>("categories.json", seedCategories as Category[]),
+  ]);
+  return new InMemoryPropertyDataSource({ properties, categories });
+}
+
+// Serializes writes so concurrent requests never lose each other's changes
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a read-only operation against the current data
+ */
+export async function readStore<T>(
+  fn: (source: InMemoryPropertyDataSource) => Promise<T>
+): Promise<T> {
+  await writeQueue.catch(() => undefined);
+  return fn(await loadSource());
+}
+
+/**
+ * Run a mutating operation and persist the result
+ * Nothing is written if the operation throws
+ */
+export function mutateStore<T>(
+  fn: (source: InMemoryPropertyDataSource) => Promise<T>
+): Promise<T> {
+  const run = writeQueue
+    .catch(() => undefined)
+    .then(async () => {
+      const source = await loadSource();
+      const result = await fn(source);
+      const { properties, categories } = source.toSeed();
+      await writeJson("properties.json", properties);
+      await writeJson("categories.json", categories);
+      return result;
+    });
+  writeQueue = run;
+  return run;
+}
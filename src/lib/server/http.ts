@@ -0,0 +1,77 @@
+/**
+ * Route Handler Helpers
+ * Request parsing and error responses in the format API_INTEGRATION.md describes
+ */
+
+import { NextResponse } from "next/server";
+import { PropertyInput } from "@/types";
+import { ApiError } from "@/lib/api/types";
+import { parseError } from "@/lib/utils/errorHandler";
+import {
+  validatePropertyInput,
+  hasValidationErrors,
+  PropertyValidationOptions,
+} from "@/lib/utils/propertyValidation";
+
+const PROPERTY_INPUT_FIELDS: (keyof PropertyInput)[] = [
+  "name",
+  "description",
+  "addressProperty",
+  "type",
+  "priceProperty",
+  "imageUrl",
+  "active",
+  "idOwner",
+];
+
+/**
+ * Convert any thrown value into a JSON error response
+ */
+export function errorResponse(error: unknown): NextResponse {
+  const { message, statusCode, errors } = parseError(error);
+  const status = statusCode >= 400 && statusCode < 600 ? statusCode : 500;
+  return NextResponse.json({ message, errors }, { status });
+}
+
+/**
+ * Read a JSON request body, rejecting anything that is not an object
+ */
+export async function readJsonBody(
+  request: Request
+): Promise<Record<string, unknown>> {
+  const body = await request.json().catch(() => null);
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw {
+      message: "Request body must be a JSON object",
+      statusCode: 400,
+    } as ApiError;
+  }
+  return body;
+}
+
+/**
+ * Keep only PropertyInput fields (clients may not set id or createdAt)
+ * and throw a 400 ApiError if they fail validation
+ */
+export function toValidPropertyInput(
+  body: Record<string, unknown>,
+  options: PropertyValidationOptions = {}
+): Partial<PropertyInput> {
+  const input: Partial<Record<keyof PropertyInput, unknown>> = {};
+  for (const field of PROPERTY_INPUT_FIELDS) {
+    if (body[field] !== undefined) {
+      input[field] = body[field];
+    }
+  }
+
+  const errors = validatePropertyInput(input, options);
+  if (hasValidationErrors(errors)) {
+    throw {
+      message: "Validation failed",
+      statusCode: 400,
+      errors,
+    } as ApiError;
+  }
+
+  return input as Partial<PropertyInput>;
+}
@@ -0,0 +1,129 @@
+import {
+  LocalSavedSearchStorage,
+  SAVED_SEARCHES_VERSION,
+  deserializeSavedSearches,
+  serializeSavedSearches,
+} from "../savedSearchStorage";
+import { SavedSearch } from "@/types";
+
+describe("savedSearchStorage", () => {
+  const key = "test.savedSearches";
+
+  const villas: SavedSearch = {
+    id: "s1",
+    name: "Active Villas under $2M",
+    filter: {
+      name: "",
+      address: "Miami",
+      priceMin: null,
+      priceMax: 2000000,
+      type: ["Villa"],
+      active: true,
+      sortBy: "price",
+      sortDir: "asc",
+    },
+    createdAt: "2024-01-01T00:00:00.000Z",
+  };
+
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  describe("serialization", () => {
+    it("should round-trip through a versioned document", () => {
+      const raw = serializeSavedSearches([villas]);
+
+      expect(JSON.parse(raw).version).toBe(SAVED_SEARCHES_VERSION);
+      expect(deserializeSavedSearches(raw)).toEqual([villas]);
+    });
+
+    it("should read legacy single-type presets as a list", () => {
+      const raw = serializeSavedSearches([
+        { ...villas, filter: { ...villas.filter, type: "Villa" } },
+      ]);
+
+      expect(deserializeSavedSearches(raw)[0].filter.type).toEqual(["Villa"]);
+    });
+
+    it("should fill in filter fields missing from older presets", () => {
+      const raw = JSON.stringify({
+        version: SAVED_SEARCHES_VERSION,
+        searches: [
+          {
+            id: "s1",
+            name: "Houses",
+            filter: { type: "House", legacyField: "x" },
+            createdAt: "2024-01-01T00:00:00.000Z",
+          },
+        ],
+      });
+
+      expect(deserializeSavedSearches(raw)[0].filter).toEqual({
+        name: "",
+        address: "",
+        priceMin: null,
+        priceMax: null,
+        type: ["House"],
+        active: null,
+        sortBy: null,
+        sortDir: null,
+      });
+    });
+
+    it("should read unversioned arrays", () => {
+      const raw = JSON.stringify([villas]);
+
+      expect(deserializeSavedSearches(raw)).toEqual([villas]);
+    });
+
+    it("should ignore corrupt data and invalid entries", () => {
+      expect(deserializeSavedSearches("not json")).toEqual([]);
+      expect(deserializeSavedSearches(null)).toEqual([]);
+      expect(
+        deserializeSavedSearches(
+          JSON.stringify({ version: 1, searches: [{ id: "x" }, villas] })
+        )
+      ).toEqual([villas]);
+    });
+  });
+
+  describe("LocalSavedSearchStorage", () => {
+    it("should create and list searches", async () => {
+      const storage = new LocalSavedSearchStorage(key);
+
+      const created = await storage.create("  Miami villas ", villas.filter);
+
+      expect(created.name).toBe("Miami villas");
+      expect(await storage.list()).toEqual([created]);
+      expect(window.localStorage.getItem(key)).toContain("Miami villas");
+    });
+
+    it("should rename a search", async () => {
+      const storage = new LocalSavedSearchStorage(key);
+      const created = await storage.create("Old", villas.filter);
+
+      const updated = await storage.update(created.id, { name: "New" });
+
+      expect(updated.name).toBe("New");
+      expect(updated.filter).toEqual(villas.filter);
+      expect((await storage.list())[0].name).toBe("New");
+    });
+
+    it("should reject updates to unknown searches", async () => {
+      const storage = new LocalSavedSearchStorage(key);
+
+      await expect(storage.update("missing", { name: "x" })).rejects.toThrow(
+        "Saved search missing not found"
+      );
+    });
+
+    it("should delete a search", async () => {
+      const storage = new LocalSavedSearchStorage(key);
+      const created = await storage.create("Temp", villas.filter);
+
+      await storage.remove(created.id);
+
+      expect(await storage.list()).toEqual([]);
+    });
+  });
+});
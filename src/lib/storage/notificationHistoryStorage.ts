@@ -0,0 +1,89 @@
+/**
+ * Notification History Storage
+ * Keeps the toasts raised this session in sessionStorage so they survive reloads
+ */
+
+export type NotificationType = "success" | "error" | "warning" | "info";
+
+export interface NotificationRecord {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  createdAt: string;
+  read: boolean;
+}
+
+export const NOTIFICATION_HISTORY_STORAGE_KEY = "realEstate.notificationHistory";
+
+/**
+ * Oldest entries are dropped beyond this, newest first
+ */
+export const MAX_NOTIFICATION_HISTORY = 100;
+
+const NOTIFICATION_TYPES: NotificationType[] = [
+  "success",
+  "error",
+  "warning",
+  "info",
+];
+
+function getStorage(): Storage | null {
+  try {
+    return typeof window !== "undefined" ? window.sessionStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+function normalizeRecord(raw: unknown): NotificationRecord | null {
+  if (!raw || typeof raw !== "object") return null;
+  const value = raw as Record<string, unknown>;
+  if (typeof value.id !== "string" || typeof value.title !== "string") {
+    return null;
+  }
+
+  return {
+    id: value.id,
+    type: NOTIFICATION_TYPES.includes(value.type as NotificationType)
+      ? (value.type as NotificationType)
+      : "info",
+    title: value.title,
+    message: typeof value.message === "string" ? value.message : "",
+    createdAt:
+      typeof value.createdAt === "string"
+        ? value.createdAt
+        : new Date(0).toISOString(),
+    read: value.read === true,
+  };
+}
+
+/**
+ * Corrupt or missing data yields an empty history instead of throwing
+ */
+export function loadNotificationHistory(): NotificationRecord[] {
+  const raw = getStorage()?.getItem(NOTIFICATION_HISTORY_STORAGE_KEY);
+  if (!raw) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map(normalizeRecord)
+      .filter((record): record is NotificationRecord => record !== null)
+      .slice(0, MAX_NOTIFICATION_HISTORY);
+  } catch {
+    return [];
+  }
+}
+
+export function saveNotificationHistory(records: NotificationRecord[]): void {
+  try {
+    getStorage()?.setItem(
+      NOTIFICATION_HISTORY_STORAGE_KEY,
+      JSON.stringify(records.slice(0, MAX_NOTIFICATION_HISTORY))
+    );
+  } catch {
+    // Quota exceeded or storage disabled; history stays in memory only
+  }
+}
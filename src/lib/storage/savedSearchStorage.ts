@@ -0,0 +1,251 @@
+/**
+ * Saved Search Storage
+ * Persists named PropertyFilter presets; localStorage today, an API later
+ */
+
+import { PropertyFilter, SavedSearch } from "@/types";
+import {
+  getFilterTypes,
+  parsePropertySearchParams,
+} from "@/lib/api/propertyQuery";
+
+/**
+ * Storage contract for saved searches
+ * Async so an API-backed implementation can drop in without UI changes
+ */
+export interface SavedSearchStorage {
+  list(): Promise<SavedSearch[]>;
+  create(name: string, filter: PropertyFilter): Promise<SavedSearch>;
+  update(
+    id: string,
+    changes: Partial<Pick<SavedSearch, "name" | "filter">>
+  ): Promise<SavedSearch>;
+  remove(id: string): Promise<void>;
+}
+
+export const SAVED_SEARCHES_STORAGE_KEY = "realEstate.savedSearches";
+
+/**
+ * Bump when the stored shape changes and add a migration below
+ */
+export const SAVED_SEARCHES_VERSION = 1;
+
+interface SavedSearchesDocument {
+  version: number;
+  searches: SavedSearch[];
+}
+
+function generateId(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : Date.now().toString();
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function asBoolean(value: unknown): boolean | null {
+  return typeof value === "boolean" ? value : null;
+}
+
+/**
+ * Accepts both the current list and the legacy single-type string
+ */
+function asTypes(value: unknown): string[] | null {
+  const candidates = Array.isArray(value) ? value : [value];
+  const types = getFilterTypes({
+    type: candidates.filter((item): item is string => typeof item === "string"),
+  });
+  return types.length > 0 ? types : null;
+}
+
+/**
+ * Validate the sort pair the same way a URL would be
+ */
+function asSort(
+  sortBy: unknown,
+  sortDir: unknown
+): Pick<PropertyFilter, "sortBy" | "sortDir"> {
+  const params = new URLSearchParams({
+    sortBy: asString(sortBy),
+    sortDir: asString(sortDir),
+  });
+  const { filters } = parsePropertySearchParams(params);
+  return { sortBy: filters.sortBy, sortDir: filters.sortDir };
+}
+
+/**
+ * Coerce a stored filter into the current PropertyFilter shape
+ * Unknown keys are dropped and missing ones get their empty defaults,
+ * so presets saved before a field existed keep working
+ */
+export function normalizeSavedFilter(raw: unknown): PropertyFilter {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<
+    string,
+    unknown
+  >;
+
+  return {
+    name: asString(value.name),
+    address: asString(value.address),
+    priceMin: asNumber(value.priceMin),
+    priceMax: asNumber(value.priceMax),
+    type: asTypes(value.type),
+    active: asBoolean(value.active),
+    ...asSort(value.sortBy, value.sortDir),
+  };
+}
+
+function normalizeSavedSearch(raw: unknown): SavedSearch | null {
+  if (!raw || typeof raw !== "object") return null;
+  const value = raw as Record<string, unknown>;
+  const id = asString(value.id);
+  const name = asString(value.name).trim();
+  if (!id || !name) return null;
+
+  return {
+    id,
+    name,
+    filter: normalizeSavedFilter(value.filter),
+    createdAt: asString(value.createdAt) || new Date(0).toISOString(),
+  };
+}
+
+/**
+ * Step-by-step upgrades, keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, (searches: unknown[]) => unknown[]> = {};
+
+/**
+ * Parse a stored document, migrating older versions forward
+ * Corrupt data yields an empty list instead of throwing
+ */
+export function deserializeSavedSearches(raw: string | null): SavedSearch[] {
+  if (!raw) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+
+  // Bare arrays predate the versioned envelope
+  const document =
+    Array.isArray(parsed)
+      ? { version: 0, searches: parsed }
+      : (parsed as Partial<SavedSearchesDocument> | null);
+
+  if (!document || !Array.isArray(document.searches)) return [];
+
+  let searches: unknown[] = document.searches;
+  for (
+    let version = document.version ?? 0;
+    version < SAVED_SEARCHES_VERSION;
+    version++
+  ) {
+    searches = MIGRATIONS[version]?.(searches) ?? searches;
+  }
+
+  return searches
+    .map(normalizeSavedSearch)
+    .filter((search): search is SavedSearch => search !== null);
+}
+
+export function serializeSavedSearches(searches: SavedSearch[]): string {
+  const document: SavedSearchesDocument = {
+    version: SAVED_SEARCHES_VERSION,
+    searches,
+  };
+  return JSON.stringify(document);
+}
+
+function notFound(id: string): Error {
+  return new Error(`Saved search ${id} not found`);
+}
+
+/**
+ * localStorage-backed implementation
+ * Falls back to an in-memory list when storage is unavailable (SSR, private mode)
+ */
+export class LocalSavedSearchStorage implements SavedSearchStorage {
+  private fallback: SavedSearch[] = [];
+
+  constructor(private key: string = SAVED_SEARCHES_STORAGE_KEY) {}
+
+  private getStorage(): Storage | null {
+    try {
+      return typeof window !== "undefined" ? window.localStorage : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private read(): SavedSearch[] {
+    const storage = this.getStorage();
+    if (!storage) return [...this.fallback];
+    return deserializeSavedSearches(storage.getItem(this.key));
+  }
+
+  private write(searches: SavedSearch[]): void {
+    const storage = this.getStorage();
+    if (!storage) {
+      this.fallback = searches;
+      return;
+    }
+    storage.setItem(this.key, serializeSavedSearches(searches));
+  }
+
+  async list(): Promise<SavedSearch[]> {
+    return this.read();
+  }
+
+  async create(name: string, filter: PropertyFilter): Promise<SavedSearch> {
+    const search: SavedSearch = {
+      id: generateId(),
+      name: name.trim(),
+      filter: normalizeSavedFilter(filter),
+      createdAt: new Date().toISOString(),
+    };
+    this.write([...this.read(), search]);
+    return search;
+  }
+
+  async update(
+    id: string,
+    changes: Partial<Pick<SavedSearch, "name" | "filter">>
+  ): Promise<SavedSearch> {
+    const searches = this.read();
+    const existing = searches.find((search) => search.id === id);
+    if (!existing) throw notFound(id);
+
+    const updated: SavedSearch = {
+      ...existing,
+      ...(changes.name !== undefined && { name: changes.name.trim() }),
+      ...(changes.filter !== undefined && {
+        filter: normalizeSavedFilter(changes.filter),
+      }),
+    };
+    this.write(
+      searches.map((search) => (search.id === id ? updated : search))
+    );
+    return updated;
+  }
+
+  async remove(id: string): Promise<void> {
+    this.write(this.read().filter((search) => search.id !== id));
+  }
+}
+
+export const savedSearchStorage: SavedSearchStorage =
+  new LocalSavedSearchStorage();
@@ -0,0 +1,149 @@
+import {
+  categoriesFromExtendedJson,
+  categoryToExtendedJson,
+  describeRejection,
+  propertiesFromExtendedJson,
+  propertyFromExtendedJson,
+  propertyToExtendedJson,
+} from "../mongoExtendedJson";
+import exportedProperties from "../../../../database/RealEstateDb.Properties.json";
+import exportedCategories from "../../../../database/RealEstateDb.Categories.json";
+import { Property } from "@/types";
+
+const document = (overrides: Record<string, unknown> = {}) => ({
+  _id: "prop-001",
+  name: "Beach House",
+  description: "Ocean views",
+  addressProperty: "1 Ocean Dr",
+  type: "House",
+  priceProperty: { $numberDecimal: "1250000.5" },
+  imageUrl: "https://example.com/house.jpg",
+  active: true,
+  createdAt: { $date: "2025-11-15T10:30:00.000Z" },
+  idOwner: "owner-123",
+  ...overrides,
+});
+
+describe("propertyFromExtendedJson", () => {
+  it("unwraps ids, decimals and dates", () => {
+    expect(propertyFromExtendedJson(document())).toEqual({
+      id: "prop-001",
+      name: "Beach House",
+      description: "Ocean views",
+      addressProperty: "1 Ocean Dr",
+      type: "House",
+      priceProperty: 1250000.5,
+      imageUrl: "https://example.com/house.jpg",
+      active: true,
+      createdAt: "2025-11-15T10:30:00.000Z",
+      idOwner: "owner-123",
+    });
+  });
+
+  it("accepts canonical-mode values", () => {
+    const property = propertyFromExtendedJson(
+      document({
+        _id: { $oid: "6560f1a2b3c4d5e6f7a8b9c0" },
+        priceProperty: { $numberLong: "900000" },
+        createdAt: { $date: { $numberLong: "1763202600000" } },
+      })
+    );
+
+    expect(property.id).toBe("6560f1a2b3c4d5e6f7a8b9c0");
+    expect(property.priceProperty).toBe(900000);
+    expect(property.createdAt).toBe("2025-11-15T10:30:00.000Z");
+  });
+
+  it("omits null optional fields", () => {
+    const property = propertyFromExtendedJson(document({ idOwner: null, imageUrl: "" }));
+    expect(property).not.toHaveProperty("idOwner");
+    expect(property).not.toHaveProperty("imageUrl");
+  });
+
+  it("applies the form rules and known categories", () => {
+    expect(() => propertyFromExtendedJson(document({ name: "" }))).toThrow("Name is required");
+    expect(() =>
+      propertyFromExtendedJson(document({ priceProperty: { $numberDecimal: "-1" } }))
+    ).toThrow("Valid price is required");
+    expect(() => propertyFromExtendedJson(document(), ["Villa"])).toThrow(
+      'Unknown property type "House"'
+    );
+    expect(() => propertyFromExtendedJson(document({ active: undefined }))).toThrow(
+      "Active must be true or false"
+    );
+  });
+
+  it("rejects values it cannot convert", () => {
+    expect(() => propertyFromExtendedJson(document({ _id: 42 }))).toThrow("Missing or invalid _id");
+    expect(() => propertyFromExtendedJson(document({ priceProperty: { $numberDecimal: "abc" } }))).toThrow(
+      "Invalid number in priceProperty"
+    );
+    expect(() => propertyFromExtendedJson(document({ createdAt: { $date: "soon" } }))).toThrow(
+      "Invalid date in createdAt"
+    );
+  });
+});
+
+describe("propertyToExtendedJson", () => {
+  it("round-trips a converted property", () => {
+    const property = propertyFromExtendedJson(document());
+    expect(propertyToExtendedJson(property)).toEqual(document());
+  });
+
+  it("writes a missing owner as null like the export", () => {
+    const property: Property = propertyFromExtendedJson(document({ idOwner: null }));
+    expect(propertyToExtendedJson(property).idOwner).toBeNull();
+  });
+});
+
+describe("propertiesFromExtendedJson", () => {
+  it("reports bad documents without dropping the rest", () => {
+    const result = propertiesFromExtendedJson([
+      document(),
+      document({ _id: "prop-002", type: "" }),
+      "not a document",
+    ]);
+
+    expect(result.records.map((p) => p.id)).toEqual(["prop-001"]);
+    expect(result.rejected).toEqual([
+      { index: 1, id: "prop-002", reason: "Property type is required" },
+      { index: 2, id: undefined, reason: "Not an object" },
+    ]);
+    expect(describeRejection(result.rejected[0])).toBe("#2 (prop-002): Property type is required");
+  });
+
+  it("requires an array", () => {
+    expect(() => propertiesFromExtendedJson({})).toThrow("Expected an array of documents");
+  });
+});
+
+describe("categories", () => {
+  it("converts and round-trips categories", () => {
+    const { records, rejected } = categoriesFromExtendedJson([
+      { _id: "cat-001", name: "House", color: "#10b981" },
+      { _id: "cat-002", name: "", color: "#3b82f6" },
+    ]);
+
+    expect(records).toEqual([{ id: "cat-001", name: "House", color: "#10b981" }]);
+    expect(rejected[0].reason).toBe("Name is required");
+    expect(categoryToExtendedJson(records[0])).toEqual({
+      _id: "cat-001",
+      name: "House",
+      color: "#10b981",
+    });
+  });
+});
+
+describe("database/ exports", () => {
+  it("convert without rejections", () => {
+    const categories = categoriesFromExtendedJson(exportedCategories);
+    const properties = propertiesFromExtendedJson(
+      exportedProperties,
+      categories.records.map((c) => c.name)
+    );
+
+    expect(categories.rejected).toEqual([]);
+    expect(properties.rejected).toEqual([]);
+    expect(properties.records).toHaveLength(exportedProperties.length);
+  });
+});
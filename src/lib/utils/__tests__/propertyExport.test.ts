@@ -0,0 +1,113 @@
+import {
+  buildPropertyExport,
+  escapeCsvValue,
+  orderColumns,
+  toCsv,
+  toJson,
+} from "../propertyExport";
+import { Property } from "@/types";
+
+const property = (overrides: Partial<Property> = {}): Property => ({
+  id: "1",
+  name: "Beach House",
+  description: "Ocean views",
+  addressProperty: "1 Ocean Dr",
+  type: "House",
+  priceProperty: 500000,
+  active: true,
+  createdAt: "2024-01-01T00:00:00Z",
+  ...overrides,
+});
+
+describe("escapeCsvValue", () => {
+  it("leaves plain values alone", () => {
+    expect(escapeCsvValue("Beach House")).toBe("Beach House");
+    expect(escapeCsvValue(500000)).toBe("500000");
+    expect(escapeCsvValue(false)).toBe("false");
+  });
+
+  it("writes empty fields for missing values", () => {
+    expect(escapeCsvValue(undefined)).toBe("");
+    expect(escapeCsvValue(null)).toBe("");
+  });
+
+  it("quotes commas, quotes, newlines and edge whitespace", () => {
+    expect(escapeCsvValue("1 Ocean Dr, Miami")).toBe('"1 Ocean Dr, Miami"');
+    expect(escapeCsvValue('The "best" view')).toBe('"The ""best"" view"');
+    expect(escapeCsvValue("Line one\nLine two")).toBe('"Line one\nLine two"');
+    expect(escapeCsvValue(" padded ")).toBe('" padded "');
+  });
+
+  it("defuses spreadsheet formulas", () => {
+    expect(escapeCsvValue("=HYPERLINK(\"x\")")).toBe('"\'=HYPERLINK(""x"")"');
+    expect(escapeCsvValue("+1 555")).toBe("'+1 555");
+    expect(escapeCsvValue("@home")).toBe("'@home");
+  });
+});
+
+describe("toCsv", () => {
+  it("writes a labelled header and one row per property", () => {
+    const csv = toCsv(
+      [
+        property(),
+        property({
+          id: "2",
+          name: "Villa",
+          addressProperty: "2 Hill Rd, Austin",
+          active: false,
+        }),
+      ],
+      ["name", "addressProperty", "priceProperty", "active"]
+    );
+
+    expect(csv.split("\r\n")).toEqual([
+      "Name,Address,Price,Active",
+      "Beach House,1 Ocean Dr,500000,true",
+      'Villa,"2 Hill Rd, Austin",500000,false',
+    ]);
+  });
+
+  it("keeps multi-line descriptions in a single field", () => {
+    const csv = toCsv([property({ description: "Sunny,\nquiet" })], ["description"]);
+
+    expect(csv).toBe('Description\r\n"Sunny,\nquiet"');
+  });
+});
+
+describe("toJson", () => {
+  it("keeps only the chosen fields with their property names", () => {
+    const json = toJson([property({ imageUrl: undefined })], ["name", "imageUrl", "active"]);
+
+    expect(JSON.parse(json)).toEqual([{ name: "Beach House", active: true }]);
+  });
+});
+
+describe("buildPropertyExport", () => {
+  const date = new Date("2024-05-06T12:00:00Z");
+
+  it("builds a CSV file with a byte order mark", () => {
+    const file = buildPropertyExport([property()], "csv", ["name"], date);
+
+    expect(file.filename).toBe("properties-2024-05-06.csv");
+    expect(file.mimeType).toBe("text/csv;charset=utf-8");
+    expect(file.content).toBe("\uFEFFName\r\nBeach House");
+  });
+
+  it("builds a JSON file", () => {
+    const file = buildPropertyExport([property()], "json", ["id"], date);
+
+    expect(file.filename).toBe("properties-2024-05-06.json");
+    expect(file.mimeType).toBe("application/json");
+    expect(JSON.parse(file.content)).toEqual([{ id: "1" }]);
+  });
+
+  it("orders columns consistently regardless of pick order", () => {
+    expect(orderColumns(["priceProperty", "name", "id"])).toEqual([
+      "id",
+      "name",
+      "priceProperty",
+    ]);
+    const file = buildPropertyExport([property()], "csv", ["priceProperty", "name"], date);
+    expect(file.content).toMatch(/^\uFEFFName,Price\r\n/);
+  });
+});
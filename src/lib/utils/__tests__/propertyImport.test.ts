@@ -0,0 +1,177 @@
+import {
+  IMPORT_ERROR_COLUMN,
+  buildFailureReport,
+  detectImportFormat,
+  guessImportMapping,
+  isValidImportRow,
+  parseCsv,
+  parseImportFile,
+  toPropertyInput,
+  validateImportRows,
+} from "../propertyImport";
+import { buildPropertyExport, DEFAULT_EXPORT_COLUMNS } from "../propertyExport";
+import { Property } from "@/types";
+
+const mapping = {
+  name: "name",
+  description: "description",
+  addressProperty: "address",
+  type: "type",
+  priceProperty: "price",
+  active: "active",
+};
+
+const record = (overrides: Record<string, string> = {}) => ({
+  name: "Beach House",
+  description: "Ocean views",
+  address: "1 Ocean Dr",
+  type: "House",
+  price: "500000",
+  active: "true",
+  ...overrides,
+});
+
+describe("detectImportFormat", () => {
+  it("recognises csv and json by extension", () => {
+    expect(detectImportFormat("listings.CSV")).toBe("csv");
+    expect(detectImportFormat("export.2024.json")).toBe("json");
+    expect(detectImportFormat("listings.xlsx")).toBeNull();
+  });
+});
+
+describe("parseCsv", () => {
+  it("handles quoted commas, escaped quotes and newlines", () => {
+    const text = 'a,b\r\n"1, 2","say ""hi"""\r\n"multi\nline",x\r\n';
+    expect(parseCsv(text)).toEqual([
+      ["a", "b"],
+      ["1, 2", 'say "hi"'],
+      ["multi\nline", "x"],
+    ]);
+  });
+
+  it("strips a BOM and drops blank lines", () => {
+    expect(parseCsv("\uFEFFa,b\n\n1,2\n,\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("rejects an unterminated quote", () => {
+    expect(() => parseCsv('a\n"open')).toThrow("Unterminated quoted field in CSV");
+  });
+});
+
+describe("parseImportFile", () => {
+  it("keys CSV records by trimmed header and removes the export formula guard", () => {
+    const { headers, records } = parseImportFile(" Name ,Address\n'=SUM(A1),1 Ocean Dr\n", "csv");
+    expect(headers).toEqual(["Name", "Address"]);
+    expect(records).toEqual([{ Name: "=SUM(A1)", Address: "1 Ocean Dr" }]);
+  });
+
+  it("collects headers across JSON objects and stringifies values", () => {
+    const { headers, records } = parseImportFile(
+      JSON.stringify([{ name: "A", priceProperty: 10 }, { name: "B", active: false }]),
+      "json"
+    );
+    expect(headers).toEqual(["name", "priceProperty", "active"]);
+    expect(records[1]).toEqual({ name: "B", priceProperty: "", active: "false" });
+  });
+
+  it("rejects JSON that is not an array", () => {
+    expect(() => parseImportFile("{}", "json")).toThrow("array of properties");
+    expect(() => parseImportFile("{", "json")).toThrow("not valid JSON");
+  });
+});
+
+describe("guessImportMapping", () => {
+  it("maps field names, labels and aliases regardless of case", () => {
+    expect(guessImportMapping(["TITLE", "Address", "price_property", "Category"])).toEqual({
+      name: "TITLE",
+      addressProperty: "Address",
+      priceProperty: "price_property",
+      type: "Category",
+    });
+  });
+
+  it("round-trips a file produced by the export", () => {
+    const property: Property = {
+      id: "1",
+      name: "Beach House",
+      description: "Ocean views",
+      addressProperty: "1 Ocean Dr",
+      type: "House",
+      priceProperty: 500000,
+      active: true,
+      createdAt: "2024-01-01T00:00:00Z",
+    };
+    const { content } = buildPropertyExport([property], "csv", DEFAULT_EXPORT_COLUMNS);
+    const parsed = parseImportFile(content, "csv");
+    const [row] = validateImportRows(parsed.records, guessImportMapping(parsed.headers));
+
+    expect(row.errors).toEqual({});
+    expect(row.input).toMatchObject({
+      name: "Beach House",
+      addressProperty: "1 Ocean Dr",
+      priceProperty: 500000,
+      active: true,
+    });
+  });
+});
+
+describe("toPropertyInput", () => {
+  it("parses formatted prices and yes/no flags", () => {
+    const input = toPropertyInput(record({ price: "$1,250,000", active: "No" }), mapping);
+    expect(input.priceProperty).toBe(1250000);
+    expect(input.active).toBe(false);
+  });
+
+  it("drops empty optional values", () => {
+    const input = toPropertyInput(record({ active: "" }), mapping);
+    expect(input).not.toHaveProperty("active");
+  });
+});
+
+describe("validateImportRows", () => {
+  it("applies the form rules and numbers rows from 1", () => {
+    const rows = validateImportRows(
+      [record(), record({ name: " ", price: "-5" }), record({ type: "Castle" })],
+      mapping,
+      ["House", "Apartment"]
+    );
+
+    expect(rows.map((row) => row.rowNumber)).toEqual([1, 2, 3]);
+    expect(isValidImportRow(rows[0])).toBe(true);
+    expect(rows[1].errors).toEqual({
+      name: ["Name is required"],
+      priceProperty: ["Valid price is required"],
+    });
+    expect(rows[2].errors.type).toEqual(['Unknown property type "Castle"']);
+  });
+
+  it("reports required fields that are not mapped", () => {
+    const [row] = validateImportRows([record()], { name: "name" });
+    expect(Object.keys(row.errors).sort()).toEqual([
+      "addressProperty",
+      "description",
+      "priceProperty",
+      "type",
+    ]);
+  });
+
+  it("rejects unrecognised active values", () => {
+    const [row] = validateImportRows([record({ active: "maybe" })], mapping);
+    expect(row.errors.active).toEqual(["Active must be true or false"]);
+  });
+});
+
+describe("buildFailureReport", () => {
+  it("keeps the original columns and appends the reason", () => {
+    const [row] = validateImportRows([record({ name: "Villa, Big" })], mapping);
+    const report = buildFailureReport(Object.keys(record()), [{ row, reason: "Server said no" }]);
+
+    expect(report.split("\r\n")).toEqual([
+      `name,description,address,type,price,active,${IMPORT_ERROR_COLUMN}`,
+      '"Villa, Big",Ocean views,1 Ocean Dr,House,500000,true,Server said no',
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Bulk Operation Utilities
+ * Runs one request per item with bounded concurrency and collects
+ * per-item outcomes, so partial failures can be reported together
+ */
+
+import { ApiError } from "@/lib/api/types";
+import { parseError } from "./errorHandler";
+
+export interface BulkFailure<T> {
+  item: T;
+  error: ApiError;
+}
+
+export interface BulkResult<T, R> {
+  succeeded: { item: T; value: R }[];
+  failed: BulkFailure<T>[];
+  skipped: T[]; // never started because the run was cancelled
+}
+
+export interface BulkOptions {
+  concurrency?: number;
+  // Called after each item settles, e.g. to show "3 of 10"
+  onProgress?: (completed: number, total: number) => void;
+  // Stops starting new items; requests already in flight still finish
+  signal?: AbortSignal;
+}
+
+/**
+ * Run `worker` for every item, at most `concurrency` at a time
+ * Never rejects; results keep the order of `items`
+ */
+export async function runBulk<T, R>(
+  items: T[],
+  worker: (item: T) => Promise<R>,
+  options: BulkOptions = {}
+): Promise<BulkResult<T, R>> {
+  const { concurrency = 4, onProgress, signal } = options;
+  const outcomes: ({ value: R } | { error: ApiError } | undefined)[] =
+    new Array(items.length);
+  let next = 0;
+  let completed = 0;
+
+  const runLane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      try {
+        outcomes[index] = { value: await worker(items[index]) };
+      } catch (error) {
+        outcomes[index] = { error: parseError(error) };
+      }
+      onProgress?.(++completed, items.length);
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: lanes }, runLane));
+
+  const result: BulkResult<T, R> = { succeeded: [], failed: [], skipped: [] };
+  items.forEach((item, index) => {
+    const outcome = outcomes[index];
+    if (!outcome) {
+      result.skipped.push(item);
+    } else if ("error" in outcome) {
+      result.failed.push({ item, error: outcome.error });
+    } else {
+      result.succeeded.push({ item, value: outcome.value });
+    }
+  });
+  return result;
+}
+
+/**
+ * One-line description of the failed items, e.g.
+ * `Beach House: Not found; Villa: Server error; and 2 more`
+ */
+export function describeBulkFailures<T>(
+  failures: BulkFailure<T>[],
+  getLabel: (item: T) => string,
+  maxListed: number = 3
+): string {
+  const listed = failures
+    .slice(0, maxListed)
+    .map(({ item, error }) => `${getLabel(item)}: ${error.message}`)
+    .join("; ");
+  const remaining = failures.length - maxListed;
+  return remaining > 0 ? `${listed}; and ${remaining} more` : listed;
+}
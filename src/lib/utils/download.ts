@@ -0,0 +1,19 @@
+/**
+ * Download Utilities
+ * Saves generated text content as a file in the browser
+ */
+
+export function downloadTextFile(
+  content: string,
+  filename: string,
+  mimeType: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
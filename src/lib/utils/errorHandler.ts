@@ -49,6 +49,19 @@ export function isApiError(error: unknown): error is ApiError {
   );
 }
 
+/**
+ * Detect requests cancelled through an AbortSignal
+ * These are expected (superseded or unmounted) and should not be reported
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "name" in error &&
+    (error as { name: unknown }).name === "AbortError"
+  );
+}
+
 /**
  * Get user-friendly error message
  */
@@ -59,6 +72,7 @@ export function getUserFriendlyMessage(error: ApiError): string {
     401: "You are not authorized. Please log in.",
     403: "You do not have permission to perform this action.",
     404: "The requested resource was not found.",
+    408: "The server took too long to respond. Please try again.",
     409: "This action conflicts with existing data.",
     422: "Validation failed. Please check your input.",
     429: "Too many requests. Please try again later.",
@@ -0,0 +1,230 @@
+/**
+ * MongoDB Extended JSON Utilities
+ * Converts documents exported with mongoexport (database/*.json) to the app's
+ * Property/Category types and back, reporting records that cannot be converted
+ */
+
+import { Category, Property } from "@/types";
+import {
+  hasValidationErrors,
+  validatePropertyInput,
+} from "./propertyValidation";
+
+export type ExtendedJsonId = string | { $oid: string };
+
+export type ExtendedJsonNumber =
+  | number
+  | { $numberDecimal: string }
+  | { $numberDouble: string }
+  | { $numberInt: string }
+  | { $numberLong: string };
+
+export type ExtendedJsonDate =
+  | string
+  | { $date: string | { $numberLong: string } };
+
+export interface ExtendedJsonProperty {
+  _id: ExtendedJsonId;
+  name: string;
+  description: string;
+  addressProperty: string;
+  type: string;
+  priceProperty: ExtendedJsonNumber;
+  imageUrl?: string | null;
+  active: boolean;
+  createdAt: ExtendedJsonDate;
+  idOwner?: string | null;
+}
+
+export interface ExtendedJsonCategory {
+  _id: ExtendedJsonId;
+  name: string;
+  color: string;
+}
+
+export interface ConversionRejection {
+  index: number; // position in the source array
+  id?: string;
+  reason: string;
+}
+
+export interface ConversionResult<T> {
+  records: T[];
+  rejected: ConversionRejection[];
+}
+
+type Document = Record<string, unknown>;
+
+function isObject(value: unknown): value is Document {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function readId(value: unknown): string {
+  if (typeof value === "string" && value !== "") return value;
+  if (isObject(value) && typeof value.$oid === "string") return value.$oid;
+  throw new Error("Missing or invalid _id");
+}
+
+function tryReadId(value: unknown): string | undefined {
+  try {
+    return readId(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function readNumber(value: unknown, field: string): number {
+  const raw = isObject(value)
+    ? (value.$numberDecimal ??
+      value.$numberDouble ??
+      value.$numberInt ??
+      value.$numberLong)
+    : value;
+  const number = typeof raw === "string" && raw !== "" ? Number(raw) : raw;
+
+  if (typeof number !== "number" || !Number.isFinite(number)) {
+    throw new Error(`Invalid number in ${field}`);
+  }
+  return number;
+}
+
+function readDate(value: unknown, field: string): string {
+  let raw = isObject(value) ? value.$date : value;
+  // Canonical mode stores dates as milliseconds since the epoch
+  if (isObject(raw) && typeof raw.$numberLong === "string") {
+    raw = Number(raw.$numberLong);
+  }
+
+  const date =
+    typeof raw === "string" || typeof raw === "number" ? new Date(raw) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date in ${field}`);
+  }
+  return date.toISOString();
+}
+
+function readOptionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") throw new Error(`Invalid ${field}`);
+  return value;
+}
+
+/**
+ * Convert one exported property document
+ * Throws with a readable reason when the document does not fit Property
+ */
+export function propertyFromExtendedJson(
+  document: unknown,
+  categories?: string[]
+): Property {
+  if (!isObject(document)) {
+    throw new Error("Not an object");
+  }
+
+  const property: Property = {
+    id: readId(document._id),
+    name: document.name as string,
+    description: document.description as string,
+    addressProperty: document.addressProperty as string,
+    type: document.type as string,
+    priceProperty: readNumber(document.priceProperty, "priceProperty"),
+    imageUrl: readOptionalString(document.imageUrl, "imageUrl"),
+    active: document.active as boolean,
+    createdAt: readDate(document.createdAt, "createdAt"),
+    idOwner: readOptionalString(document.idOwner, "idOwner"),
+  };
+
+  // Same rules as the form, so converted data is always creatable
+  const errors = validatePropertyInput(property, { categories });
+  if (typeof property.active !== "boolean") {
+    errors.active = ["Active must be true or false"];
+  }
+  if (hasValidationErrors(errors)) {
+    throw new Error(Object.values(errors).flat().join("; "));
+  }
+
+  // Drop empty optional fields so the output matches src/data
+  if (property.imageUrl === undefined) delete property.imageUrl;
+  if (property.idOwner === undefined) delete property.idOwner;
+  return property;
+}
+
+export function propertyToExtendedJson(property: Property): ExtendedJsonProperty {
+  const document: ExtendedJsonProperty = {
+    _id: property.id,
+    name: property.name,
+    description: property.description,
+    addressProperty: property.addressProperty,
+    type: property.type,
+    priceProperty: { $numberDecimal: String(property.priceProperty) },
+    imageUrl: property.imageUrl,
+    active: property.active,
+    createdAt: { $date: new Date(property.createdAt).toISOString() },
+    idOwner: property.idOwner ?? null,
+  };
+  if (document.imageUrl === undefined) delete document.imageUrl;
+  return document;
+}
+
+export function categoryFromExtendedJson(document: unknown): Category {
+  if (!isObject(document)) {
+    throw new Error("Not an object");
+  }
+  if (typeof document.name !== "string" || document.name.trim() === "") {
+    throw new Error("Name is required");
+  }
+  if (typeof document.color !== "string" || document.color === "") {
+    throw new Error("Color is required");
+  }
+  return { id: readId(document._id), name: document.name, color: document.color };
+}
+
+export function categoryToExtendedJson(category: Category): ExtendedJsonCategory {
+  return { _id: category.id, name: category.name, color: category.color };
+}
+
+function convertAll<T>(
+  documents: unknown,
+  convert: (document: unknown) => T
+): ConversionResult<T> {
+  if (!Array.isArray(documents)) {
+    throw new Error("Expected an array of documents");
+  }
+
+  const result: ConversionResult<T> = { records: [], rejected: [] };
+  documents.forEach((document, index) => {
+    try {
+      result.records.push(convert(document));
+    } catch (error) {
+      result.rejected.push({
+        index,
+        id: isObject(document) ? tryReadId(document._id) : undefined,
+        reason: (error as Error).message,
+      });
+    }
+  });
+  return result;
+}
+
+/**
+ * Convert a whole export; bad documents are reported instead of aborting
+ * When `categories` is given, each property's type must be one of them
+ */
+export function propertiesFromExtendedJson(
+  documents: unknown,
+  categories?: string[]
+): ConversionResult<Property> {
+  return convertAll(documents, (document) =>
+    propertyFromExtendedJson(document, categories)
+  );
+}
+
+export function categoriesFromExtendedJson(
+  documents: unknown
+): ConversionResult<Category> {
+  return convertAll(documents, categoryFromExtendedJson);
+}
+
+export function describeRejection({ index, id, reason }: ConversionRejection): string {
+  return `#${index + 1}${id ? ` (${id})` : ""}: ${reason}`;
+}
@@ -0,0 +1,78 @@
+/**
+ * Optimistic Update Utilities
+ * List helpers for applying mutations before the server confirms them
+ * Rollbacks touch only the affected item, so concurrent mutations on other
+ * items are preserved
+ */
+
+import { Property, PropertyInput } from "@/types";
+
+const TEMP_ID_PREFIX = "temp-";
+
+let tempCounter = 0;
+
+/**
+ * Placeholder ID for a property the server has not created yet
+ */
+export function createTempId(): string {
+  return `${TEMP_ID_PREFIX}${Date.now()}-${++tempCounter}`;
+}
+
+export function isTempId(id: string): boolean {
+  return id.startsWith(TEMP_ID_PREFIX);
+}
+
+/**
+ * Build the property shown while a create request is in flight
+ */
+export function createOptimisticProperty(
+  input: PropertyInput,
+  id: string = createTempId()
+): Property {
+  return {
+    ...input,
+    id,
+    active: input.active ?? true,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function replaceById<T extends { id: string }>(
+  items: T[],
+  id: string,
+  next: T
+): T[] {
+  return items.map((item) => (item.id === id ? next : item));
+}
+
+export function removeById<T extends { id: string }>(
+  items: T[],
+  id: string
+): T[] {
+  return items.filter((item) => item.id !== id);
+}
+
+/**
+ * Put a removed item back near its original position
+ * No-op if it is already present (e.g. a refetch brought it back)
+ */
+export function restoreAt<T extends { id: string }>(
+  items: T[],
+  item: T,
+  index: number
+): T[] {
+  if (items.some((existing) => existing.id === item.id)) return items;
+  const position = Math.min(Math.max(0, index), items.length);
+  return [...items.slice(0, position), item, ...items.slice(position)];
+}
+
+/**
+ * Undo an optimistic edit, unless a newer change has replaced it since
+ */
+export function revertItem<T extends { id: string }>(
+  items: T[],
+  optimistic: T,
+  previous: T
+): T[] {
+  return items.map((item) => (item === optimistic ? previous : item));
+}
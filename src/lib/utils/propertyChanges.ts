@@ -0,0 +1,38 @@
+/**
+ * Property Change Utilities
+ * Computes minimal update payloads for PUT /properties/{id}
+ */
+
+import { Property, PropertyInput } from "@/types";
+
+const EDITABLE_FIELDS: (keyof PropertyInput)[] = [
+  "name",
+  "description",
+  "addressProperty",
+  "type",
+  "priceProperty",
+  "imageUrl",
+  "active",
+  "idOwner",
+];
+
+/**
+ * Return only the fields of `input` that differ from `property`
+ * Cleared optional fields are sent as "" so the backend removes them
+ */
+export function getPropertyChanges(
+  property: Property,
+  input: PropertyInput
+): Partial<PropertyInput> {
+  const changes: Partial<PropertyInput> = {};
+
+  for (const field of EDITABLE_FIELDS) {
+    const before = property[field] ?? "";
+    const after = input[field] ?? "";
+    if (before !== after) {
+      (changes as Record<string, unknown>)[field] = after;
+    }
+  }
+
+  return changes;
+}
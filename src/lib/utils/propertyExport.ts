@@ -0,0 +1,111 @@
+/**
+ * Property Export Utilities
+ * Pure CSV/JSON serialization of property listings; downloading is up to the caller
+ */
+
+import { Property } from "@/types";
+
+export type ExportFormat = "csv" | "json";
+
+export type ExportColumn = keyof Property;
+
+export const EXPORT_COLUMNS: { key: ExportColumn; label: string }[] = [
+  { key: "id", label: "ID" },
+  { key: "name", label: "Name" },
+  { key: "description", label: "Description" },
+  { key: "addressProperty", label: "Address" },
+  { key: "type", label: "Type" },
+  { key: "priceProperty", label: "Price" },
+  { key: "active", label: "Active" },
+  { key: "imageUrl", label: "Image URL" },
+  { key: "createdAt", label: "Created At" },
+  { key: "idOwner", label: "Owner ID" },
+];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+  "name",
+  "addressProperty",
+  "type",
+  "priceProperty",
+  "active",
+  "description",
+];
+
+export interface ExportFile {
+  content: string;
+  filename: string;
+  mimeType: string;
+}
+
+// Excel only detects UTF-8 CSV files with a byte order mark
+const UTF8_BOM = "\uFEFF";
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const getLabel = (key: ExportColumn) =>
+  EXPORT_COLUMNS.find((column) => column.key === key)?.label ?? key;
+
+/**
+ * Quote a CSV field when needed (RFC 4180) and defuse formula injection
+ */
+export function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value !== "string") return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(properties: Property[], columns: ExportColumn[]): string {
+  const header = columns.map((key) => escapeCsvValue(getLabel(key))).join(",");
+  const rows = properties.map((property) =>
+    columns.map((key) => escapeCsvValue(property[key])).join(",")
+  );
+  return [header, ...rows].join("\r\n");
+}
+
+/**
+ * Keeps the Property field names so the file can be re-imported
+ */
+export function toJson(properties: Property[], columns: ExportColumn[]): string {
+  const records = properties.map((property) =>
+    Object.fromEntries(
+      columns
+        .filter((key) => property[key] !== undefined)
+        .map((key) => [key, property[key]])
+    )
+  );
+  return JSON.stringify(records, null, 2);
+}
+
+/**
+ * Columns in EXPORT_COLUMNS order, whatever order they were picked in
+ */
+export function orderColumns(columns: ExportColumn[]): ExportColumn[] {
+  return EXPORT_COLUMNS.map((column) => column.key).filter((key) =>
+    columns.includes(key)
+  );
+}
+
+export function buildPropertyExport(
+  properties: Property[],
+  format: ExportFormat,
+  columns: ExportColumn[],
+  date: Date = new Date()
+): ExportFile {
+  const ordered = orderColumns(columns);
+  const stamp = date.toISOString().slice(0, 10);
+
+  return format === "csv"
+    ? {
+        content: UTF8_BOM + toCsv(properties, ordered),
+        filename: `properties-${stamp}.csv`,
+        mimeType: "text/csv;charset=utf-8",
+      }
+    : {
+        content: toJson(properties, ordered),
+        filename: `properties-${stamp}.json`,
+        mimeType: "application/json",
+      };
+}
@@ -0,0 +1,275 @@
+/**
+ * Property Import Utilities
+ * Pure parsing, column mapping and validation for bulk imports from CSV/JSON
+ * Rows are checked with the same rules AddPropertyForm uses
+ */
+
+import { PropertyInput } from "@/types";
+import {
+  PropertyValidationErrors,
+  hasValidationErrors,
+  validatePropertyInput,
+} from "./propertyValidation";
+import { escapeCsvValue } from "./propertyExport";
+
+export type ImportFormat = "csv" | "json";
+
+export type ImportField = keyof PropertyInput;
+
+export type ImportRecord = Record<string, string>;
+
+export interface ParsedImport {
+  headers: string[];
+  records: ImportRecord[];
+}
+
+// Target field -> source column
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportRow {
+  rowNumber: number; // 1-based, not counting the CSV header
+  record: ImportRecord;
+  input: Partial<Record<ImportField, unknown>>;
+  errors: PropertyValidationErrors;
+}
+
+export interface ImportFailure {
+  row: ImportRow;
+  reason: string;
+}
+
+export const IMPORT_FIELDS: {
+  key: ImportField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}[] = [
+  { key: "name", label: "Name", required: true, aliases: ["title"] },
+  { key: "description", label: "Description", required: true, aliases: [] },
+  {
+    key: "addressProperty",
+    label: "Address",
+    required: true,
+    aliases: ["address", "location"],
+  },
+  { key: "type", label: "Type", required: true, aliases: ["category"] },
+  { key: "priceProperty", label: "Price", required: true, aliases: ["price"] },
+  { key: "imageUrl", label: "Image URL", required: false, aliases: ["image"] },
+  { key: "active", label: "Active", required: false, aliases: [] },
+  { key: "idOwner", label: "Owner ID", required: false, aliases: ["owner"] },
+];
+
+export const IMPORT_ERROR_COLUMN = "Import Error";
+
+export function detectImportFormat(filename: string): ImportFormat | null {
+  const extension = filename.toLowerCase().split(".").pop();
+  return extension === "csv" || extension === "json" ? extension : null;
+}
+
+/**
+ * RFC 4180 parser: quoted fields may contain commas, quotes and newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const source = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Unterminated quoted field in CSV");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * Undo the formula guard added by the CSV export (`'=...`)
+ */
+function unguardCell(value: string): string {
+  return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+}
+
+function stringifyCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+export function parseImportFile(text: string, format: ImportFormat): ParsedImport {
+  if (format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error("File is not valid JSON");
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error("JSON file must contain an array of properties");
+    }
+
+    const objects = parsed.filter(
+      (item): item is Record<string, unknown> =>
+        !!item && typeof item === "object" && !Array.isArray(item)
+    );
+    const headers = [...new Set(objects.flatMap((item) => Object.keys(item)))];
+    const records = objects.map((item) =>
+      Object.fromEntries(headers.map((h) => [h, stringifyCell(item[h])]))
+    );
+    return { headers, records };
+  }
+
+  const [headerRow, ...dataRows] = parseCsv(text);
+  if (!headerRow) {
+    throw new Error("CSV file is empty");
+  }
+
+  const headers = headerRow.map((header) => header.trim());
+  const records = dataRows.map((cells) =>
+    Object.fromEntries(
+      headers.map((header, index) => [header, unguardCell(cells[index] ?? "")])
+    )
+  );
+  return { headers, records };
+}
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Match source columns to fields by field name, label or a known alias
+ * Handles files produced by the export as well as hand-made spreadsheets
+ */
+export function guessImportMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+
+  for (const field of IMPORT_FIELDS) {
+    const candidates = [field.key, field.label, ...field.aliases].map(
+      normalizeHeader
+    );
+    const match = headers.find((header) =>
+      candidates.includes(normalizeHeader(header))
+    );
+    if (match) mapping[field.key] = match;
+  }
+
+  return mapping;
+}
+
+function parsePrice(value: string): number | string | undefined {
+  const cleaned = value.replace(/[$,\s]/g, "");
+  if (cleaned === "") return undefined;
+  const price = Number(cleaned);
+  // Leave unparseable text as-is so validation reports it
+  return Number.isFinite(price) ? price : value;
+}
+
+function parseActive(value: string): boolean | string | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "") return undefined;
+  if (["true", "yes", "1", "active"].includes(normalized)) return true;
+  if (["false", "no", "0", "inactive"].includes(normalized)) return false;
+  return value;
+}
+
+/**
+ * Turn one source record into a PropertyInput candidate
+ * Empty optional values are dropped rather than sent as ""
+ */
+export function toPropertyInput(
+  record: ImportRecord,
+  mapping: ImportMapping
+): Partial<Record<ImportField, unknown>> {
+  const input: Partial<Record<ImportField, unknown>> = {};
+
+  for (const { key } of IMPORT_FIELDS) {
+    const column = mapping[key];
+    if (!column) continue;
+    const raw = (record[column] ?? "").trim();
+    const value =
+      key === "priceProperty"
+        ? parsePrice(raw)
+        : key === "active"
+          ? parseActive(raw)
+          : raw || undefined;
+
+    if (value !== undefined) input[key] = value;
+  }
+
+  return input;
+}
+
+export function validateImportRows(
+  records: ImportRecord[],
+  mapping: ImportMapping,
+  categories?: string[]
+): ImportRow[] {
+  return records.map((record, index) => {
+    const input = toPropertyInput(record, mapping);
+    return {
+      rowNumber: index + 1,
+      record,
+      input,
+      errors: validatePropertyInput(input, { categories }),
+    };
+  });
+}
+
+export function isValidImportRow(row: ImportRow): boolean {
+  return !hasValidationErrors(row.errors);
+}
+
+export function describeRowErrors(errors: PropertyValidationErrors): string {
+  return Object.values(errors).flat().join("; ");
+}
+
+/**
+ * Failed rows as CSV in their original columns plus the reason, so the file
+ * can be fixed and imported again
+ */
+export function buildFailureReport(
+  headers: string[],
+  failures: ImportFailure[]
+): string {
+  const columns = [...headers.filter((h) => h !== IMPORT_ERROR_COLUMN), IMPORT_ERROR_COLUMN];
+  const lines = failures.map(({ row, reason }) =>
+    columns
+      .map((column) =>
+        escapeCsvValue(column === IMPORT_ERROR_COLUMN ? reason : row.record[column])
+      )
+      .join(",")
+  );
+  return [columns.map(escapeCsvValue).join(","), ...lines].join("\r\n");
+}
@@ -0,0 +1,67 @@
+/**
+ * Property Validation Utilities
+ * Single source of truth for the rules AddPropertyForm enforces
+ */
+
+import { PropertyInput } from "@/types";
+
+export type PropertyValidationErrors = Partial<
+  Record<keyof PropertyInput, string[]>
+>;
+
+export interface PropertyValidationOptions {
+  // Only validate fields that are present (PUT with partial updates)
+  partial?: boolean;
+  // Known category names; when given, `type` must be one of them
+  categories?: string[];
+}
+
+function isBlank(value: unknown): boolean {
+  return typeof value !== "string" || value.trim() === "";
+}
+
+/**
+ * Validate a property payload
+ * Returns errors keyed by field, in the ApiError `errors` format
+ */
+export function validatePropertyInput(
+  input: Partial<Record<keyof PropertyInput, unknown>>,
+  options: PropertyValidationOptions = {}
+): PropertyValidationErrors {
+  const { partial = false, categories } = options;
+  const errors: PropertyValidationErrors = {};
+  const shouldCheck = (field: keyof PropertyInput) =>
+    !partial || input[field] !== undefined;
+
+  if (shouldCheck("name") && isBlank(input.name)) {
+    errors.name = ["Name is required"];
+  }
+  if (shouldCheck("description") && isBlank(input.description)) {
+    errors.description = ["Description is required"];
+  }
+  if (shouldCheck("addressProperty") && isBlank(input.addressProperty)) {
+    errors.addressProperty = ["Address is required"];
+  }
+  if (shouldCheck("priceProperty")) {
+    const price = input.priceProperty;
+    if (typeof price !== "number" || !Number.isFinite(price) || price <= 0) {
+      errors.priceProperty = ["Valid price is required"];
+    }
+  }
+  if (shouldCheck("type")) {
+    if (isBlank(input.type)) {
+      errors.type = ["Property type is required"];
+    } else if (categories && !categories.includes(input.type as string)) {
+      errors.type = [`Unknown property type "${input.type}"`];
+    }
+  }
+  if (input.active !== undefined && typeof input.active !== "boolean") {
+    errors.active = ["Active must be true or false"];
+  }
+
+  return errors;
+}
+
+export function hasValidationErrors(errors: PropertyValidationErrors): boolean {
+  return Object.keys(errors).length > 0;
+}
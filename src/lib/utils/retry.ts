@@ -4,6 +4,7 @@
  */
 
 import { ApiError } from "@/lib/api/types";
+import { isAbortError } from "./errorHandler";
 
 export interface RetryOptions {
   maxAttempts?: number;
@@ -11,9 +12,10 @@ export interface RetryOptions {
   backoffMultiplier?: number;
   retryableStatusCodes?: number[];
   onRetry?: (attempt: number, error: ApiError) => void;
+  signal?: AbortSignal;
 }
 
-const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, "signal">> = {
   maxAttempts: 3,
   delayMs: 1000,
   backoffMultiplier: 2,
@@ -29,10 +31,36 @@ function isRetryable(error: ApiError, retryableStatusCodes: number[]): boolean {
 }
 
 /**
- * Sleep utility
+ * Build the error thrown when a signal is aborted
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function abortReason(signal: AbortSignal): unknown {
+  return (
+    signal.reason ??
+    new DOMException("The operation was aborted.", "AbortError")
+  );
+}
+
+/**
+ * Sleep utility (rejects early if the signal is aborted)
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 /**
@@ -47,9 +75,18 @@ export async function withRetry<T>(
   let currentDelay = opts.delayMs;
 
   for (let attempt = 1; attempt <= opts.maxAttempts; attempt++) {
+    if (opts.signal?.aborted) {
+      throw abortReason(opts.signal);
+    }
+
     try {
       return await fn();
     } catch (error) {
+      // Never retry a cancelled request
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       const apiError = error as ApiError;
       lastError = apiError;
 
@@ -67,7 +104,7 @@ export async function withRetry<T>(
       opts.onRetry(attempt, apiError);
 
       // Wait before next attempt
-      await sleep(currentDelay);
+      await sleep(currentDelay, opts.signal);
 
       // Exponential backoff
       currentDelay *= opts.backoffMultiplier;
@@ -0,0 +1,56 @@
+/**
+ * Timeout Utilities
+ * Aborts requests that take longer than the configured limit
+ */
+
+import { ApiError } from "@/lib/api/types";
+
+export interface TimeoutHandle {
+  signal: AbortSignal;
+  timedOut: () => boolean;
+  clear: () => void;
+}
+
+/**
+ * Create a signal that aborts after timeoutMs or when the parent signal aborts
+ */
+export function createTimeoutSignal(
+  timeoutMs: number,
+  parent?: AbortSignal | null
+): TimeoutHandle {
+  const controller = new AbortController();
+  let didTimeOut = false;
+
+  const onParentAbort = () => controller.abort(parent?.reason);
+
+  const timer = setTimeout(() => {
+    didTimeOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener("abort", onParentAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => didTimeOut,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener("abort", onParentAbort);
+    },
+  };
+}
+
+/**
+ * Build the ApiError reported for a timed out request
+ * 408 is in withRetry's default retryable status codes
+ */
+export function createTimeoutError(timeoutMs: number): ApiError {
+  return {
+    message: `Request timed out after ${Math.round(timeoutMs / 1000)} seconds`,
+    statusCode: 408,
+  };
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import { createContext, useContext, ReactNode } from 'react';
+import { useConfirmDialog } from '@/hooks/useConfirmDialog';
+import ConfirmDialog from '@/components/ConfirmDialog';
+
+type ConfirmContextType = ReturnType<typeof useConfirmDialog>['confirm'];
+
+const ConfirmContext = createContext<ConfirmContextType | undefined>(undefined);
+
+export function ConfirmProvider({ children }: { children: ReactNode }) {
+  const { request, confirm, settle } = useConfirmDialog();
+
+  return (
+    <ConfirmContext.Provider value={confirm}>
+      {children}
+      {request && (
+        <ConfirmDialog
+          key={request.id}
+          {...request.options}
+          onConfirm={() => settle(true)}
+          onCancel={() => settle(false)}
+        />
+      )}
+    </ConfirmContext.Provider>
+  );
+}
+
+/**
+ * Returns `confirm(options)`, which resolves to true when the user confirms
+ */
+export function useConfirm() {
+  const context = useContext(ConfirmContext);
+  if (context === undefined) {
+    throw new Error('useConfirm must be used within a ConfirmProvider');
+  }
+  return context;
+}
@@ -1,20 +1,47 @@
 'use client';
 
 import { createContext, useContext, ReactNode } from 'react';
-import { useToast } from '@/hooks/useToast';
+import { useToast, UseToastOptions, Toast } from '@/hooks/useToast';
+import { useNotificationHistory } from '@/hooks/useNotificationHistory';
 import ToastContainer from '@/components/ToastContainer';
 
-type ToastContextType = ReturnType<typeof useToast>;
+type ToastContextType = ReturnType<typeof useToast> & {
+  history: ReturnType<typeof useNotificationHistory>;
+};
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
 
-export function ToastProvider({ children }: { children: ReactNode }) {
-  const toast = useToast();
+interface ToastProviderProps extends Omit<UseToastOptions, 'onNotify'> {
+  children: ReactNode;
+  pauseOnHover?: boolean; // also pauses while a toast has focus
+}
+
+export function ToastProvider({
+  children,
+  maxVisible,
+  dedupe,
+  pauseOnHover = true,
+}: ToastProviderProps) {
+  const history = useNotificationHistory();
+  const { record } = history;
+  const toast = useToast({
+    maxVisible,
+    dedupe,
+    onNotify: ({ type, title, message }: Toast) => {
+      if (type !== 'loading') record({ type, title, message });
+    },
+  });
 
   return (
-    <ToastContext.Provider value={toast}>
+    <ToastContext.Provider value={{ ...toast, history }}>
       {children}
-      <ToastContainer toasts={toast.toasts} onRemove={toast.removeToast} />
+      <ToastContainer
+        toasts={toast.toasts}
+        queuedCount={toast.queuedCount}
+        onRemove={toast.removeToast}
+        onPause={pauseOnHover ? toast.pauseToast : undefined}
+        onResume={pauseOnHover ? toast.resumeToast : undefined}
+      />
     </ToastContext.Provider>
   );
 }
@@ -0,0 +1,80 @@
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { ToastProvider, useToastContext } from '../ToastProvider';
+import { useUndoQueue } from '@/hooks/useUndoQueue';
+
+// Mirrors the delete flow on the listing page
+function DeleteHarness({ onCommit, onRestore }: { onCommit: () => void; onRestore: () => void }) {
+    const toast = useToastContext();
+    const pending = useUndoQueue({ delayMs: null });
+
+    const remove = () => {
+        pending.schedule('1', onCommit);
+        toast.info('Deleted', '"Villa" was deleted', 5000, {
+            actions: [{ label: 'Undo', onClick: () => pending.undo('1') && onRestore() }],
+            onDismiss: () => pending.commit('1'),
+        });
+    };
+
+    return <button onClick={remove}>Delete</button>;
+}
+
+describe('ToastProvider', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    const setup = () => {
+        const onCommit = jest.fn();
+        const onRestore = jest.fn();
+        render(
+            <ToastProvider>
+                <DeleteHarness onCommit={onCommit} onRestore={onRestore} />
+            </ToastProvider>
+        );
+        fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+        const undo = screen.getByRole('button', { name: 'Undo' });
+        return { onCommit, onRestore, undo, toast: undo.closest('[data-toast-id]')! };
+    };
+
+    it('keeps Undo working while the toast is hovered', () => {
+        const { onCommit, onRestore, undo, toast } = setup();
+
+        fireEvent.mouseEnter(toast);
+        act(() => {
+            jest.advanceTimersByTime(10000);
+        });
+        expect(onCommit).not.toHaveBeenCalled();
+
+        fireEvent.click(undo);
+
+        expect(onRestore).toHaveBeenCalledTimes(1);
+        act(() => {
+            jest.runAllTimers();
+        });
+        expect(onCommit).not.toHaveBeenCalled();
+        expect(screen.queryByRole('button', { name: 'Undo' })).not.toBeInTheDocument();
+    });
+
+    it('commits once the toast expires', () => {
+        const { onCommit, onRestore } = setup();
+
+        act(() => {
+            jest.advanceTimersByTime(5000);
+        });
+
+        expect(onCommit).toHaveBeenCalledTimes(1);
+        expect(onRestore).not.toHaveBeenCalled();
+    });
+
+    it('commits when the toast is closed', () => {
+        const { onCommit } = setup();
+
+        fireEvent.click(screen.getByRole('button', { name: /close notification/i }));
+
+        expect(onCommit).toHaveBeenCalledTimes(1);
+    });
+});
@@ -24,13 +24,20 @@ export interface PropertyInput {
   idOwner?: string;
 }
 
+export type PropertySortField = "price" | "createdAt" | "name";
+
+export type SortDirection = "asc" | "desc";
+
 export interface PropertyFilter {
   name?: string;
   address?: string;
   priceMin?: number | null;
   priceMax?: number | null;
-  type?: string | null;
+  // One or more categories; a single string is still accepted
+  type?: string | string[] | null;
   active?: boolean | null;
+  sortBy?: PropertySortField | null;
+  sortDir?: SortDirection | null;
 }
 
 export interface Category {
@@ -38,3 +45,10 @@ export interface Category {
   name: string;
   color: string;
 }
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filter: PropertyFilter;
+  createdAt: string;
+}